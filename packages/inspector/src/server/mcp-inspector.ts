@@ -26,13 +26,17 @@ export class MCPInspector {
   }
 
   async connectToServer(url?: string, command?: string): Promise<MCPServer> {
+    const serverConfig = url ? { url } : command ? { command } : undefined
+    if (!serverConfig) {
+      throw new Error('Cannot connect to a server without a URL or a command')
+    }
+
     const id = Date.now().toString()
     const name = url || command || 'Unknown Server'
 
     try {
       // Configure server in MCP client
       const serverName = `server_${id}`
-      const serverConfig = url ? { url } : { command }
 
       this.client.addServer(serverName, serverConfig)
 
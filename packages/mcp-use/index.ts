@@ -15,16 +15,75 @@ import { MCPClient } from './src/client.js'
 import { loadConfigFile } from './src/config.js'
 import { BaseConnector } from './src/connectors/base.js'
 import { HttpConnector } from './src/connectors/http.js'
+import { InMemoryConnector } from './src/connectors/in_memory.js'
+import { ReplayConnector } from './src/connectors/replay.js'
 import { StdioConnector } from './src/connectors/stdio.js'
 import { WebSocketConnector } from './src/connectors/websocket.js'
 
 import { Logger, logger } from './src/logging.js'
 import { MCPSession } from './src/session.js'
 
-export { BaseAdapter, LangChainAdapter } from './src/adapters/index.js'
+export { BaseAdapter, LangChainAdapter, prefixedToolName, TOOL_PROGRESS_EVENT } from './src/adapters/index.js'
+export type { AdapterOptions, ToolNamingStrategy, ToolProgressEventData } from './src/adapters/index.js'
+export { CassetteRecorder, loadCassette } from './src/cassette.js'
+export type { Cassette, CassetteEntry, CassetteNotification, CassetteRequest } from './src/cassette.js'
+export { CircuitBreaker, isServerFailure } from './src/circuit_breaker.js'
+export type { CircuitBreakerOptions, CircuitState } from './src/circuit_breaker.js'
+export type { ConfigFileOptions, ImportedConfigOptions, MCPClientOptions } from './src/client.js'
+export type { BaseMCPClientOptions, CreateAllSessionsOptions, CreateSessionOptions, ServerConnectionFailure, ServerConnectionResult, SessionsReport } from './src/client/base.js'
+export type { MCPClientEvents, ServerConfigChange, ServerLogEntry } from './src/client/events.js'
+export type { ConfigLoadOptions } from './src/config.js'
+export type { CallToolOptions, Completion, CompletionArgument, CompletionReference } from './src/connectors/base.js'
+export type { InMemoryConnectorOptions, InProcessServer } from './src/connectors/in_memory.js'
+export type { ReplayConnectorOptions } from './src/connectors/replay.js'
+export { validateElicitationContent } from './src/elicitation.js'
+export type { ElicitationContext, ElicitationHandler, ElicitationRequest } from './src/elicitation.js'
+export { MiddlewareChain } from './src/middleware.js'
+export type { MCPMiddleware, MiddlewareContext, NextRequestHandler } from './src/middleware.js'
+export { RateLimiter } from './src/rate_limiter.js'
+export type { RateLimitOptions } from './src/rate_limiter.js'
+export { isRetryableError, parseRetryAfter, RetryPolicy, TransientHttpError } from './src/retry.js'
+export type { RetryOptions } from './src/retry.js'
+export { createLangChainSamplingHandler } from './src/sampling.js'
+export type { LangChainSamplingOptions, SamplingContext, SamplingHandler, SamplingRequest } from './src/sampling.js'
+export type { MCPSessionEvents, MCPSessionOptions, ResourceUpdateCallback, SessionState, WatchResourceOptions } from './src/session.js'
+export { canonicalizeArguments, InMemoryToolCacheStore, isCacheableTool, ToolResultCache } from './src/tool_cache.js'
+export type { CachedToolResult, ToolCacheOptions, ToolCacheStore } from './src/tool_cache.js'
+export { globToRegExp, ToolFilter } from './src/tool_filter.js'
+export type { ToolAnnotationPattern, ToolFilterOptions, ToolPattern } from './src/tool_filter.js'
+export {
+  getVSCodeConfigInputs,
+  importClaudeDesktopConfig,
+  importCursorConfig,
+  importVSCodeConfig,
+} from './src/config/importers.js'
+export type { VSCodeImportOptions, VSCodeInputDefinition } from './src/config/importers.js'
+export { interpolateConfig } from './src/config/interpolation.js'
+// Export config schema and validation helpers
+export {
+  httpServerConfigSchema,
+  inferServerTransport,
+  inProcessServerConfigSchema,
+  sseServerConfigSchema,
+  stdioServerConfigSchema,
+  validateClientConfig,
+  validateServerConfig,
+  websocketServerConfigSchema,
+} from './src/config/schema.js'
+export type {
+  HttpServerConfig,
+  InProcessServerConfig,
+  MCPClientConfig,
+  MCPServerConfig,
+  MCPServerTransport,
+  SseServerConfig,
+  StdioServerConfig,
+  WebSocketServerConfig,
+} from './src/config/schema.js'
 // Export AI SDK utilities
 export * from './src/agents/utils/index.js'
 export { ServerManager } from './src/managers/server_manager.js'
+export type { ServerState } from './src/managers/server_manager.js'
 
 export * from './src/managers/tools/index.js'
 
@@ -51,5 +110,5 @@ export { AIMessage, BaseMessage, HumanMessage, SystemMessage, ToolMessage } from
 // Re-export StreamEvent type from LangChain for convenience
 export type { StreamEvent } from '@langchain/core/tracers/log_stream'
 
-export { BaseConnector, HttpConnector, loadConfigFile, Logger, logger, MCPAgent, MCPClient, MCPSession, RemoteAgent, StdioConnector, WebSocketConnector }
+export { BaseConnector, HttpConnector, InMemoryConnector, loadConfigFile, Logger, logger, MCPAgent, MCPClient, MCPSession, RemoteAgent, ReplayConnector, StdioConnector, WebSocketConnector }
 
@@ -1,7 +1,32 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js'
 import type { MCPClient } from '../client.js'
 import type { BaseConnector } from '../connectors/base.js'
+import { isEqual } from 'lodash-es'
 import { logger } from '../logging.js'
 
+/**
+ * How converted tools are named when tools of several servers are created
+ * together:
+ * - `'on-collision'`: `serverName__toolName` for names offered by more than
+ *   one server, the server's name otherwise (default)
+ * - `'prefix'`: always `serverName__toolName`
+ * - `'original'`: always the server's name, even if names collide
+ * - a function returning the name to use
+ *
+ * Characters other than letters, digits, `_` and `-` in server names are
+ * replaced with `_` when prefixing.
+ */
+export type ToolNamingStrategy
+  = 'on-collision'
+    | 'prefix'
+    | 'original'
+    | ((tool: Tool, serverName: string) => string)
+
+export interface AdapterOptions {
+  /** How tools are named. Defaults to `'on-collision'`. */
+  toolNaming?: ToolNamingStrategy
+}
+
 /**
  * Abstract base class for converting MCP tools to other framework formats.
  *
@@ -10,18 +35,24 @@ import { logger } from '../logging.js'
  */
 export abstract class BaseAdapter<T> {
   /**
-   * List of tool names that should not be available.
+   * List of tool names that should not be available. Entries match a tool's
+   * original name or its `serverName__toolName` form.
    */
   protected readonly disallowedTools: string[]
 
+  protected readonly toolNaming: ToolNamingStrategy
+
   /**
    * Internal cache that maps a connector instance to the list of tools
-   * generated for it.
+   * generated for it, along with the connector's tools cache and the names
+   * they were generated from. A refreshed connector cache or a rename
+   * invalidates the entry.
    */
-  private readonly connectorToolMap: Map<BaseConnector, T[]> = new Map()
+  private readonly connectorToolMap: Map<BaseConnector, { source: Tool[], names: Array<string | null>, tools: T[] }> = new Map()
 
-  constructor(disallowedTools?: string[]) {
+  constructor(disallowedTools?: string[], options: AdapterOptions = {}) {
     this.disallowedTools = disallowedTools ?? []
+    this.toolNaming = options.toolNaming ?? 'on-collision'
   }
 
   /**
@@ -32,16 +63,28 @@ export abstract class BaseAdapter<T> {
    *
    * @param client          The MCPClient to extract tools from.
    * @param disallowedTools Optional list of tool names to exclude.
+   * @param options         Optional adapter options, such as the tool naming strategy.
    * @returns               A promise that resolves with a list of converted tools.
    */
   static async createTools<TTool, TAdapter extends BaseAdapter<TTool>>(
-    this: new (disallowedTools?: string[]) => TAdapter,
+    this: new (disallowedTools?: string[], options?: AdapterOptions) => TAdapter,
     client: MCPClient,
     disallowedTools?: string[],
+    options?: AdapterOptions,
   ): Promise<TTool[]> {
-    // Create the adapter
-    const adapter = new this(disallowedTools)
+    const adapter = new this(disallowedTools, options)
+    return adapter.createToolsFromClient(client)
+  }
 
+  /**
+   * Create tools from every active session of an MCPClient, creating the
+   * sessions first if there are none. Tools are named after the sessions'
+   * server names.
+   *
+   * @param client The MCPClient to extract tools from.
+   * @returns      A promise that resolves with a list of converted tools.
+   */
+  async createToolsFromClient(client: MCPClient): Promise<T[]> {
     // Ensure we have active sessions
     if (!client.activeSessions || Object.keys(client.activeSessions).length === 0) {
       logger.info('No active sessions found, creating new ones...')
@@ -51,87 +94,172 @@ export abstract class BaseAdapter<T> {
     // Get all active sessions
     const sessions = client.getAllActiveSessions()
 
-    // Extract connectors from sessions
-    const connectors: BaseConnector[] = Object.values(sessions).map(
-      session => session.connector,
+    // Extract connectors from sessions, keyed by server name
+    const connectors = Object.fromEntries(
+      Object.entries(sessions).map(([serverName, session]) => [serverName, session.connector]),
     )
 
     // Create tools from connectors
-    return adapter.createToolsFromConnectors(connectors)
+    return this.createToolsFromConnectors(connectors)
   }
 
   /**
    * Dynamically load tools for a specific connector.
    *
-   * @param connector The connector to load tools for.
-   * @returns         The list of tools that were loaded in the target framework's format.
+   * @param connector  The connector to load tools for.
+   * @param serverName Name used when prefixing tool names. Defaults to the
+   *                   name the server reported.
+   * @returns          The list of tools that were loaded in the target framework's format.
    */
-  async loadToolsForConnector(connector: BaseConnector): Promise<T[]> {
-    // Return cached tools if we already processed this connector
-    if (this.connectorToolMap.has(connector)) {
-      const cached = this.connectorToolMap.get(connector)!
-      logger.debug(`Returning ${cached.length} existing tools for connector`)
-      return cached
-    }
-
-    const connectorTools: T[] = []
-
-    // Make sure the connector is initialized and has tools
-    const success = await this.ensureConnectorInitialized(connector)
-    if (!success) {
-      return []
-    }
-
-    // Convert and collect tools
-    for (const tool of connector.tools) {
-      const converted = this.convertTool(tool, connector)
-      if (converted) {
-        connectorTools.push(converted)
-      }
-    }
-
-    // Cache the tools for this connector
-    this.connectorToolMap.set(connector, connectorTools)
-
-    // Log for debugging purposes
-    logger.debug(
-      `Loaded ${connectorTools.length} new tools for connector: ${connectorTools
-        .map((t: any) => t?.name ?? String(t))
-        .join(', ')}`,
-    )
-
-    return connectorTools
+  async loadToolsForConnector(connector: BaseConnector, serverName?: string): Promise<T[]> {
+    return this.createToolsFromConnectors(serverName === undefined ? [connector] : { [serverName]: connector })
   }
 
   /**
    * Convert an MCP tool to the target framework's tool format.
    *
-   * @param mcpTool   The MCP tool definition to convert.
-   * @param connector The connector that provides this tool.
-   * @returns         The converted tool, or null / undefined if no tool should be produced.
+   * @param mcpTool    The MCP tool definition to convert.
+   * @param connector  The connector that provides this tool.
+   * @param name       The name to give the converted tool. Calls to the
+   *                   connector must still use `mcpTool.name`.
+   * @param serverName The server the tool comes from.
+   * @returns          The converted tool, or null / undefined if no tool should be produced.
    */
   protected abstract convertTool(
-    mcpTool: Record<string, any>,
-    connector: BaseConnector
+    mcpTool: Tool,
+    connector: BaseConnector,
+    name: string,
+    serverName: string,
   ): T | null | undefined
 
   /**
    * Create tools from MCP tools in all provided connectors.
    *
-   * @param connectors List of MCP connectors to create tools from.
-   * @returns         A promise that resolves with all converted tools.
+   * @param connectors List of MCP connectors to create tools from, or a map of
+   *                   server names to connectors. Without names, tools are
+   *                   prefixed with the name each server reported.
+   * @returns          A promise that resolves with all converted tools.
    */
-  public async createToolsFromConnectors(connectors: BaseConnector[]): Promise<T[]> {
+  public async createToolsFromConnectors(connectors: BaseConnector[] | Record<string, BaseConnector>): Promise<T[]> {
+    const entries: Array<[string | undefined, BaseConnector]> = Array.isArray(connectors)
+      ? connectors.map(connector => [undefined, connector])
+      : Object.entries(connectors)
+
+    // Make sure each connector is initialized and has tools
+    const servers: Array<{ serverName: string, connector: BaseConnector }> = []
+    for (const [index, [serverName, connector]] of entries.entries()) {
+      if (cachedConnectorTools(connector) || await this.ensureConnectorInitialized(connector)) {
+        servers.push({ serverName: serverName ?? connector.serverInfo?.name ?? `server${index + 1}`, connector })
+      }
+    }
+
+    const names = this.assignToolNames(servers)
     const tools: T[] = []
-    for (const connector of connectors) {
-      const connectorTools = await this.loadToolsForConnector(connector)
-      tools.push(...connectorTools)
+    for (const { serverName, connector } of servers) {
+      tools.push(...this.convertConnectorTools(connector, serverName, names.get(connector)!))
     }
 
     logger.debug(`Available tools: ${tools.length}`)
     return tools
   }
 
+  /**
+   * Whether a tool is excluded by `disallowedTools` or by the connector's
+   * tool filter.
+   */
+  protected isToolDisallowed(connector: BaseConnector, toolName: string, serverName: string): boolean {
+    return this.disallowedTools.includes(toolName)
+      || this.disallowedTools.includes(prefixedToolName(serverName, toolName))
+      || !connector.isToolAllowed(toolName)
+  }
+
+  /**
+   * Name every tool of every server according to the naming strategy.
+   *
+   * @returns The names of each connector's tools, in the order of its tools
+   *          list, with `null` for excluded tools.
+   */
+  private assignToolNames(servers: Array<{ serverName: string, connector: BaseConnector }>): Map<BaseConnector, Array<string | null>> {
+    const owners = new Map<string, Set<string>>()
+    for (const { serverName, connector } of servers) {
+      for (const tool of connector.tools) {
+        if (!this.isToolDisallowed(connector, tool.name, serverName)) {
+          owners.set(tool.name, (owners.get(tool.name) ?? new Set()).add(serverName))
+        }
+      }
+    }
+
+    const naming = this.toolNaming
+    const nameFor = (tool: Tool, serverName: string): string => {
+      if (typeof naming === 'function') {
+        return naming(tool, serverName)
+      }
+      switch (naming) {
+        case 'prefix':
+          return prefixedToolName(serverName, tool.name)
+        case 'on-collision':
+          return (owners.get(tool.name)?.size ?? 0) > 1 ? prefixedToolName(serverName, tool.name) : tool.name
+        default:
+          return tool.name
+      }
+    }
+
+    const result = new Map<BaseConnector, Array<string | null>>()
+    const used = new Map<string, string>()
+    for (const { serverName, connector } of servers) {
+      const names = connector.tools.map(tool =>
+        this.isToolDisallowed(connector, tool.name, serverName) ? null : nameFor(tool, serverName))
+      for (const name of names) {
+        if (name === null) {
+          continue
+        }
+        const previous = used.get(name)
+        if (previous !== undefined && previous !== serverName) {
+          logger.warn(`Tool name '${name}' is used by servers '${previous}' and '${serverName}'; only one of them will be callable`)
+        }
+        used.set(name, serverName)
+      }
+      result.set(connector, names)
+    }
+    return result
+  }
+
+  /**
+   * Convert a connector's tools, reusing the previous conversion if neither
+   * its tools nor their names (or exclusions) changed.
+   */
+  private convertConnectorTools(connector: BaseConnector, serverName: string, names: Array<string | null>): T[] {
+    const cached = this.connectorToolMap.get(connector)
+    if (cached && cached.source === connector.tools && isEqual(cached.names, names)) {
+      logger.debug(`Returning ${cached.tools.length} existing tools for connector`)
+      return cached.tools
+    }
+
+    const connectorTools: T[] = []
+    connector.tools.forEach((tool, i) => {
+      const name = names[i]
+      if (name === null) {
+        return
+      }
+      const converted = this.convertTool(tool, connector, name, serverName)
+      if (converted) {
+        connectorTools.push(converted)
+      }
+    })
+
+    // Cache the tools for this connector
+    this.connectorToolMap.set(connector, { source: connector.tools, names, tools: connectorTools })
+
+    // Log for debugging purposes
+    logger.debug(
+      `Loaded ${connectorTools.length} new tools for server '${serverName}': ${connectorTools
+        .map((t: any) => t?.name ?? String(t))
+        .join(', ')}`,
+    )
+
+    return connectorTools
+  }
+
   /**
    * Check if a connector is initialized and has tools.
    *
@@ -139,7 +267,7 @@ export abstract class BaseAdapter<T> {
    * @returns         True if the connector is initialized and has tools, false otherwise.
    */
   private checkConnectorInitialized(connector: BaseConnector): boolean {
-    return Boolean(connector.tools && connector.tools.length)
+    return Boolean(cachedConnectorTools(connector)?.length)
   }
 
   /**
@@ -163,3 +291,20 @@ export abstract class BaseAdapter<T> {
     return true
   }
 }
+
+function cachedConnectorTools(connector: BaseConnector): Tool[] | null {
+  try {
+    return connector.tools
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * `serverName__toolName`, with characters tool names commonly may not
+ * contain replaced in the server name.
+ */
+export function prefixedToolName(serverName: string, toolName: string): string {
+  return `${serverName.replace(/[^\w-]/g, '_')}__${toolName}`
+}
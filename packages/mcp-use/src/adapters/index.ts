@@ -1,2 +1,4 @@
-export { BaseAdapter } from './base.js'
-export { LangChainAdapter } from './langchain_adapter.js'
+export { BaseAdapter, prefixedToolName } from './base.js'
+export type { AdapterOptions, ToolNamingStrategy } from './base.js'
+export { LangChainAdapter, TOOL_PROGRESS_EVENT } from './langchain_adapter.js'
+export type { ToolProgressEventData } from './langchain_adapter.js'
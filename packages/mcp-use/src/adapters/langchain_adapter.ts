@@ -1,11 +1,15 @@
 import type { JSONSchema } from '@dmitryrechkin/json-schema-to-zod'
+import type { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager'
+import type { RunnableConfig } from '@langchain/core/runnables'
 import type { StructuredToolInterface } from '@langchain/core/tools'
+import type { Progress } from '@modelcontextprotocol/sdk/types.js'
 import type {
   CallToolResult,
   Tool as MCPTool,
 } from '@modelcontextprotocol/sdk/types.js'
 import type { ZodTypeAny } from 'zod'
 import type { BaseConnector } from '../connectors/base.js'
+import type { AdapterOptions } from './base.js'
 
 import { JSONSchemaToZod } from '@dmitryrechkin/json-schema-to-zod'
 import { DynamicStructuredTool } from '@langchain/core/tools'
@@ -13,6 +17,17 @@ import { z } from 'zod'
 import { logger } from '../logging.js'
 import { BaseAdapter } from './base.js'
 
+/**
+ * Name of the LangChain custom event dispatched for each progress
+ * notification received while a converted tool runs.
+ */
+export const TOOL_PROGRESS_EVENT = 'mcp_tool_progress'
+
+export interface ToolProgressEventData extends Progress {
+  /** Name of the MCP tool reporting progress. */
+  tool: string
+}
+
 function schemaToZod(schema: unknown): ZodTypeAny {
   try {
     return JSONSchemaToZod.convert(schema as JSONSchema)
@@ -24,38 +39,63 @@ function schemaToZod(schema: unknown): ZodTypeAny {
 }
 
 export class LangChainAdapter extends BaseAdapter<StructuredToolInterface> {
-  constructor(disallowedTools: string[] = []) {
-    super(disallowedTools)
+  constructor(disallowedTools: string[] = [], options: AdapterOptions = {}) {
+    super(disallowedTools, options)
   }
 
   /**
    * Convert a single MCP tool specification into a LangChainJS structured tool.
+   * Renamed tools mention their MCP name and server in the description, so
+   * the model (and the agent's system prompt) can tell them apart.
    */
   protected convertTool(
     mcpTool: MCPTool,
     connector: BaseConnector,
+    name: string,
+    serverName: string,
   ): StructuredToolInterface | null {
-    // Filter out disallowed tools early.
-    if (this.disallowedTools.includes(mcpTool.name)) {
-      return null
-    }
-
     // Derive a strict Zod schema for the tool's arguments.
     const argsSchema: ZodTypeAny = mcpTool.inputSchema
       ? schemaToZod(mcpTool.inputSchema)
       : z.object({}).optional()
 
+    let description = mcpTool.description ?? '' // Blank is acceptable but discouraged.
+    if (name !== mcpTool.name) {
+      description = `('${mcpTool.name}' on server '${serverName}') ${description}`.trimEnd()
+    }
+
     const tool = new DynamicStructuredTool({
-      name: mcpTool.name ?? 'NO NAME',
-      description: mcpTool.description ?? '', // Blank is acceptable but discouraged.
+      name: name || 'NO NAME',
+      description,
       schema: argsSchema,
-      func: async (input: Record<string, any>): Promise<string> => {
+      func: async (
+        input: Record<string, any>,
+        runManager?: CallbackManagerForToolRun,
+        config?: RunnableConfig,
+      ): Promise<string> => {
         logger.debug(`MCP tool "${mcpTool.name}" received input: ${JSON.stringify(input)}`)
+        // Only request progress when someone is listening for the events
+        const onProgress = runManager
+          ? (progress: Progress) => {
+              const data: ToolProgressEventData = { ...progress, tool: mcpTool.name }
+              runManager.handleCustomEvent(TOOL_PROGRESS_EVENT, data).catch((err) => {
+                logger.debug(`Failed to dispatch progress for MCP tool "${mcpTool.name}": ${err}`)
+              })
+            }
+          : undefined
         try {
-          const result: CallToolResult = await connector.callTool(mcpTool.name, input)
+          const result: CallToolResult = await connector.callTool(mcpTool.name, input, {
+            onProgress,
+            resetTimeoutOnProgress: onProgress !== undefined,
+            signal: config?.signal,
+          })
           return JSON.stringify(result)
         }
         catch (err: any) {
+          // A cancelled run must stop, not report the cancellation to the LLM
+          if (config?.signal?.aborted) {
+            throw err
+          }
           logger.error(`Error executing MCP tool: ${err.message}`)
           return `Error executing MCP tool: ${String(err)}`
         }
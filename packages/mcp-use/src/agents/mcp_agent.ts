@@ -7,11 +7,17 @@ import type {
 } from '@langchain/core/messages'
 import type { StructuredToolInterface, ToolInterface } from '@langchain/core/tools'
 import type { StreamEvent } from '@langchain/core/tracers/log_stream'
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js'
 import type { AgentFinish, AgentStep } from 'langchain/agents'
 import type { ZodSchema } from 'zod'
+import type { ToolNamingStrategy } from '../adapters/base.js'
+import type { ToolProgressEventData } from '../adapters/langchain_adapter.js'
 import type { MCPClient } from '../client.js'
 import type { BaseConnector } from '../connectors/base.js'
+import type { ElicitationHandler } from '../elicitation.js'
+import type { LangChainSamplingOptions } from '../sampling.js'
 import type { MCPSession } from '../session.js'
+import type { PendingElicitation } from './utils/elicitation_queue.js'
 import { CallbackManager } from '@langchain/core/callbacks/manager'
 import {
   AIMessage,
@@ -24,16 +30,33 @@ import {
   ChatPromptTemplate,
   MessagesPlaceholder,
 } from '@langchain/core/prompts'
+import { DynamicStructuredTool } from '@langchain/core/tools'
 import { AgentExecutor, createToolCallingAgent } from 'langchain/agents'
 import { zodToJsonSchema } from 'zod-to-json-schema'
-import { LangChainAdapter } from '../adapters/langchain_adapter.js'
+import { LangChainAdapter, TOOL_PROGRESS_EVENT } from '../adapters/langchain_adapter.js'
 import { logger } from '../logging.js'
 import { ServerManager } from '../managers/server_manager.js'
 import { ObservabilityManager } from '../observability/index.js'
+import { createLangChainSamplingHandler } from '../sampling.js'
 import { extractModelInfo, Telemetry } from '../telemetry/index.js'
 import { createSystemMessage } from './prompts/system_prompt_builder.js'
 import { DEFAULT_SYSTEM_PROMPT_TEMPLATE, SERVER_MANAGER_SYSTEM_PROMPT_TEMPLATE } from './prompts/templates.js'
 import { RemoteAgent } from './remote.js'
+import { ElicitationQueue } from './utils/elicitation_queue.js'
+
+/**
+ * Build an `on_tool_progress` or `on_elicitation` event for `streamEvents()`,
+ * whose `data` holds event-specific fields instead of LangChain's `input`,
+ * `output` and `chunk`.
+ */
+function customStreamEvent(
+  event: string,
+  name: string,
+  data: Record<string, unknown>,
+  source?: Pick<StreamEvent, 'run_id' | 'metadata'>,
+): StreamEvent {
+  return { event, name, run_id: source?.run_id ?? '', metadata: source?.metadata ?? {}, data }
+}
 
 export class MCPAgent {
   private llm?: BaseLanguageModelInterface
@@ -43,6 +66,7 @@ export class MCPAgent {
   private autoInitialize: boolean
   private memoryEnabled: boolean
   private disallowedTools: string[]
+  private toolNaming?: ToolNamingStrategy
   private additionalTools: StructuredToolInterface[]
   private useServerManager: boolean
   private verbose: boolean
@@ -57,6 +81,9 @@ export class MCPAgent {
   private sessions: Record<string, MCPSession> = {}
   private systemMessage: SystemMessage | null = null
   private _tools: StructuredToolInterface[] = []
+  private toolsStale = false
+  private elicitations: ElicitationQueue | null = null
+  private unsubscribeChangeEvents: (() => void) | null = null
   private adapter: LangChainAdapter
   private serverManager: ServerManager | null = null
   private telemetry: Telemetry
@@ -84,6 +111,11 @@ export class MCPAgent {
     systemPromptTemplate?: string | null
     additionalInstructions?: string | null
     disallowedTools?: string[]
+    /**
+     * How tools are named when several servers offer a tool with the same
+     * name. Defaults to prefixing colliding names with the server name.
+     */
+    toolNaming?: ToolNamingStrategy
     additionalTools?: StructuredToolInterface[]
     useServerManager?: boolean
     verbose?: boolean
@@ -91,6 +123,19 @@ export class MCPAgent {
     adapter?: LangChainAdapter
     serverManagerFactory?: (client: MCPClient) => ServerManager
     callbacks?: BaseCallbackHandler[]
+    /**
+     * Answer servers' sampling requests with this agent's `llm`. Pass options
+     * to map model preferences, cap `maxTokens` or approve requests. Ignored
+     * if the client already has a sampling handler.
+     */
+    sampling?: boolean | LangChainSamplingOptions
+    /**
+     * Let servers ask the user for input mid-run. With `true`, requests are
+     * yielded by `streamEvents()` as `on_elicitation` events whose
+     * `data.respond(result)` answers them; pass a handler to answer them
+     * directly instead. Ignored if the client already has an elicitation handler.
+     */
+    elicitation?: boolean | ElicitationHandler
     // Remote agent parameters
     agentId?: string
     apiKey?: string
@@ -142,6 +187,7 @@ export class MCPAgent {
     this.systemPromptTemplateOverride = options.systemPromptTemplate ?? null
     this.additionalInstructions = options.additionalInstructions ?? null
     this.disallowedTools = options.disallowedTools ?? []
+    this.toolNaming = options.toolNaming
     this.additionalTools = options.additionalTools ?? []
     this.useServerManager = options.useServerManager ?? false
     this.verbose = options.verbose ?? false
@@ -151,16 +197,39 @@ export class MCPAgent {
       throw new Error('Either \'client\' or at least one \'connector\' must be provided.')
     }
 
+    if (options.sampling) {
+      const samplingHandler = createLangChainSamplingHandler(this.llm, options.sampling === true ? {} : options.sampling)
+      if (this.client && !this.client.getSamplingHandler()) {
+        this.client.setSamplingHandler(samplingHandler)
+      }
+      for (const connector of this.connectors) {
+        connector.setSamplingHandler(samplingHandler)
+      }
+    }
+
+    if (options.elicitation) {
+      if (options.elicitation === true) {
+        this.elicitations = new ElicitationQueue()
+      }
+      const elicitationHandler = options.elicitation === true ? this.elicitations!.handler : options.elicitation
+      if (this.client && !this.client.getElicitationHandler()) {
+        this.client.setElicitationHandler(elicitationHandler)
+      }
+      for (const connector of this.connectors) {
+        connector.setElicitationHandler(elicitationHandler)
+      }
+    }
+
     if (this.useServerManager) {
       if (!this.client) {
         throw new Error('\'client\' must be provided when \'useServerManager\' is true.')
       }
-      this.adapter = options.adapter ?? new LangChainAdapter(this.disallowedTools)
+      this.adapter = options.adapter ?? new LangChainAdapter(this.disallowedTools, { toolNaming: this.toolNaming })
       this.serverManager = options.serverManagerFactory?.(this.client) ?? new ServerManager(this.client, this.adapter)
     }
     // Let consumers swap allowed tools dynamically
     else {
-      this.adapter = options.adapter ?? new LangChainAdapter(this.disallowedTools)
+      this.adapter = options.adapter ?? new LangChainAdapter(this.disallowedTools, { toolNaming: this.toolNaming })
     }
 
     // Initialize telemetry
@@ -242,14 +311,33 @@ export class MCPAgent {
         // If no active sessions exist, create new ones
         if (Object.keys(this.sessions).length === 0) {
           logger.info('🔄 No active sessions found, creating new ones...')
-          this.sessions = await this.client.createAllSessions()
-          logger.info(`✅ Created ${Object.keys(this.sessions).length} new sessions`)
+          const report = await this.client.createAllSessionsWithReport()
+          this.sessions = this.client.getAllActiveSessions()
+          logger.info(`✅ Created ${report.connected.length} new sessions`)
+          for (const { serverName, error, durationMs } of report.failed) {
+            logger.warn(`⚠️ Skipping server '${serverName}' (failed after ${durationMs}ms): ${error.message}`)
+          }
         }
 
         // Create LangChain tools directly from the client using the adapter
-        this._tools = await LangChainAdapter.createTools(this.client)
+        this._tools = await this.adapter.createToolsFromClient(this.client)
         this._tools.push(...this.additionalTools)
         logger.info(`🛠️ Created ${this._tools.length} LangChain tools from client`)
+
+        // Rebuild tools between steps when the client's server set or a server's tool list changes
+        this.unsubscribeChangeEvents?.()
+        const unsubscribers = [
+          this.client.on('configChanged', ({ changes }) => {
+            logger.info(`🔄 Client configuration changed (${changes.map(c => `${c.serverName}: ${c.type}`).join(', ')}), tools will be rebuilt`)
+            this.toolsStale = true
+          }),
+          this.client.on('toolsChanged', ({ serverName }) => {
+            logger.info(`🔄 Tools of server '${serverName}' changed, tools will be rebuilt`)
+            this.toolsStale = true
+          }),
+        ]
+        this.unsubscribeChangeEvents = () => unsubscribers.forEach(unsubscribe => unsubscribe())
+        this.toolsStale = false
       }
       else {
         // Using direct connector - only establish connection
@@ -264,6 +352,17 @@ export class MCPAgent {
         this._tools = await this.adapter.createToolsFromConnectors(this.connectors)
         this._tools.push(...this.additionalTools)
         logger.info(`🛠️ Created ${this._tools.length} LangChain tools from connectors`)
+
+        // Rebuild tools between steps when a connector's tool list changes
+        this.unsubscribeChangeEvents?.()
+        const unsubscribers = this.connectors.map(connector => connector.onNotification((notification) => {
+          if (notification.method === 'notifications/tools/list_changed') {
+            logger.info('🔄 Connector tools changed, tools will be rebuilt')
+            this.toolsStale = true
+          }
+        }))
+        this.unsubscribeChangeEvents = () => unsubscribers.forEach(unsubscribe => unsubscribe())
+        this.toolsStale = false
       }
 
       // Get all tools for system message generation
@@ -310,6 +409,32 @@ export class MCPAgent {
     }
   }
 
+  /**
+   * Rebuild tools, system message and executor if the client config or a
+   * server's tool list changed since they were created.
+   *
+   * @returns True if the tools were rebuilt.
+   */
+  private async refreshToolsIfStale(): Promise<boolean> {
+    if (!this.toolsStale) {
+      return false
+    }
+    this.toolsStale = false
+
+    if (this.client) {
+      this.sessions = this.client.getAllActiveSessions()
+      this._tools = await this.adapter.createToolsFromClient(this.client)
+    }
+    else {
+      this._tools = await this.adapter.createToolsFromConnectors(this.connectors)
+    }
+    this._tools.push(...this.additionalTools)
+    await this.createSystemMessageFromTools(this._tools)
+    this._agentExecutor = this.createAgent()
+    logger.info(`🛠️ Rebuilt agent with ${this._tools.length} tools after a tool or configuration change`)
+    return true
+  }
+
   private createAgent(): AgentExecutor {
     if (!this.llm) {
       throw new Error('LLM is required to create agent')
@@ -372,7 +497,7 @@ export class MCPAgent {
 
   public setDisallowedTools(disallowedTools: string[]): void {
     this.disallowedTools = disallowedTools
-    this.adapter = new LangChainAdapter(this.disallowedTools)
+    this.adapter = new LangChainAdapter(this.disallowedTools, { toolNaming: this.toolNaming })
     if (this._initialized) {
       logger.debug('Agent already initialized. Changes will take effect on next initialization.')
     }
@@ -508,7 +633,7 @@ export class MCPAgent {
         const serverConfigs: Record<string, any> = {}
         for (const serverName of serverNames) {
           try {
-            const config = this.client.getServerConfig(serverName)
+            const config: Record<string, any> | undefined = this.client.getServerConfig(serverName)
             if (config) {
               // Determine server type based on configuration
               let serverType = 'unknown'
@@ -577,6 +702,8 @@ export class MCPAgent {
     maxSteps?: number,
     manageConnector?: boolean,
     externalHistory?: BaseMessage[],
+    outputSchema?: undefined,
+    signal?: AbortSignal,
   ): Promise<string>
 
   /**
@@ -588,6 +715,7 @@ export class MCPAgent {
     manageConnector?: boolean,
     externalHistory?: BaseMessage[],
     outputSchema?: ZodSchema<T>,
+    signal?: AbortSignal,
   ): Promise<T>
 
   public async run<T>(
@@ -596,10 +724,11 @@ export class MCPAgent {
     manageConnector?: boolean,
     externalHistory?: BaseMessage[],
     outputSchema?: ZodSchema<T>,
+    signal?: AbortSignal,
   ): Promise<string | T> {
     // Delegate to remote agent if in remote mode
     if (this.isRemote && this.remoteAgent) {
-      return this.remoteAgent.run(query, maxSteps, manageConnector, externalHistory, outputSchema)
+      return this.remoteAgent.run(query, maxSteps, manageConnector, externalHistory, outputSchema, signal)
     }
 
     const generator = this.stream<T>(
@@ -608,6 +737,7 @@ export class MCPAgent {
       manageConnector,
       externalHistory,
       outputSchema,
+      signal,
     )
     return this._consumeAndReturn(generator)
   }
@@ -615,6 +745,9 @@ export class MCPAgent {
   /**
    * Runs the agent and yields intermediate steps as an async generator.
    * If outputSchema is provided, returns structured output of type T.
+   *
+   * Aborting `signal` stops the step loop, cancels the pending LLM call and
+   * in-flight MCP tool calls, and rejects with the signal's reason.
    */
   public async* stream<T = string>(
     query: string,
@@ -622,10 +755,11 @@ export class MCPAgent {
     manageConnector = true,
     externalHistory?: BaseMessage[],
     outputSchema?: ZodSchema<T>,
+    signal?: AbortSignal,
   ): AsyncGenerator<AgentStep, string | T, void> {
     // Delegate to remote agent if in remote mode
     if (this.isRemote && this.remoteAgent) {
-      const result = await this.remoteAgent.run(query, maxSteps, manageConnector, externalHistory, outputSchema)
+      const result = await this.remoteAgent.run(query, maxSteps, manageConnector, externalHistory, outputSchema, signal)
       return result as string | T
     }
 
@@ -694,7 +828,7 @@ export class MCPAgent {
       const intermediateSteps: AgentStep[] = []
       const inputs = { input: query, chat_history: langchainHistory } as Record<string, unknown>
 
-      let nameToToolMap: Record<string, StructuredToolInterface> = Object.fromEntries(this._tools.map(t => [t.name, t]))
+      let nameToToolMap = this.toolMapForRun(signal)
       logger.info(`🏁 Starting agent execution with max_steps=${steps}`)
 
       // Create a run manager with our callbacks if we have any - ONCE for the entire execution
@@ -734,20 +868,27 @@ export class MCPAgent {
             await this.createSystemMessageFromTools(this._tools)
             this._agentExecutor = this.createAgent()
             this._agentExecutor.maxIterations = steps
-            nameToToolMap = Object.fromEntries(this._tools.map(t => [t.name, t]))
+            nameToToolMap = this.toolMapForRun(signal)
           }
         }
+        else if (await this.refreshToolsIfStale()) {
+          this._agentExecutor.maxIterations = steps
+          nameToToolMap = this.toolMapForRun(signal)
+        }
 
         logger.info(`👣 Step ${stepNum + 1}/${steps}`)
 
         try {
+          signal?.throwIfAborted()
           logger.debug('Starting agent step execution')
           const nextStepOutput: AgentStep[] | AgentFinish = await this._agentExecutor._takeNextStep(
             nameToToolMap as Record<string, ToolInterface>,
             inputs,
             intermediateSteps,
             runManager,
+            { signal },
           )
+          signal?.throwIfAborted()
           // Agent finish handling (AgentFinish contains returnValues property)
           if ('returnValues' in nextStepOutput) {
             logger.info(`✅ Agent finished at step ${stepNum + 1}`)
@@ -833,6 +974,11 @@ export class MCPAgent {
           }
         }
         catch (e) {
+          if (signal?.aborted) {
+            logger.info(`🛑 Agent run aborted at step ${stepNum + 1}`)
+            await runManager?.handleChainError(signal.reason)
+            throw signal.reason
+          }
           if (e instanceof OutputParserException) {
             logger.error(`❌ Output parsing error during step ${stepNum + 1}: ${e}`)
             result = `Agent stopped due to a parsing error: ${e}`
@@ -928,6 +1074,9 @@ export class MCPAgent {
     try {
       this._agentExecutor = null
       this._tools = []
+      this.unsubscribeChangeEvents?.()
+      this.unsubscribeChangeEvents = null
+      this.toolsStale = false
       if (this.client) {
         logger.info('🔄 Closing sessions through client')
         await this.client.closeAllSessions()
@@ -940,7 +1089,7 @@ export class MCPAgent {
         }
       }
       if ('connectorToolMap' in this.adapter) {
-        this.adapter = new LangChainAdapter()
+        this.adapter = new LangChainAdapter(this.disallowedTools, { toolNaming: this.toolNaming })
       }
     }
     finally {
@@ -949,9 +1098,106 @@ export class MCPAgent {
     }
   }
 
+  /**
+   * Map tool names to tools for one run. `_takeNextStep` calls tools without
+   * a config, so each MCP tool is wrapped in a tool whose function adds the
+   * run's signal to the config it passes on. Other tools are used as they are.
+   */
+  private toolMapForRun(signal?: AbortSignal): Record<string, StructuredToolInterface> {
+    return Object.fromEntries(this._tools.map((tool) => {
+      if (!signal || !(tool instanceof DynamicStructuredTool)) {
+        return [tool.name, tool]
+      }
+      const bound = new DynamicStructuredTool({
+        name: tool.name,
+        description: tool.description,
+        schema: tool.schema,
+        returnDirect: tool.returnDirect,
+        responseFormat: tool.responseFormat,
+        func: (input, runManager, config) => tool.func(input, runManager, { ...config, signal }),
+      })
+      return [tool.name, bound]
+    }))
+  }
+
+  /**
+   * Copy of `executor` for one `streamEvents()` run, using the tools from
+   * `toolMapForRun()` so the run's signal reaches MCP tool calls.
+   */
+  private executorForRun(executor: AgentExecutor, signal: AbortSignal): AgentExecutor {
+    return new AgentExecutor({
+      agent: executor.agent,
+      tools: Object.values(this.toolMapForRun(signal)),
+      maxIterations: executor.maxIterations,
+      verbose: executor.verbose,
+      returnIntermediateSteps: executor.returnIntermediateSteps,
+      callbacks: executor.callbacks,
+    })
+  }
+
+  /**
+   * Merge pending elicitations into an event stream as `on_elicitation`
+   * events, so the caller can answer them while the tool call that triggered
+   * them is still waiting.
+   */
+  private async* withElicitations(events: AsyncIterable<StreamEvent>): AsyncGenerator<StreamEvent, void, void> {
+    const elicitations = this.elicitations
+    if (!elicitations) {
+      yield* events
+      return
+    }
+
+    const detach = elicitations.attach()
+    const iterator = events[Symbol.asyncIterator]()
+    let nextEvent: Promise<IteratorResult<StreamEvent>> | null = null
+    // Yielded to the caller but not answered yet
+    const unanswered = new Set<PendingElicitation>()
+    try {
+      while (true) {
+        nextEvent ??= iterator.next()
+        const next = await Promise.race([nextEvent, elicitations.waitForPending().then(() => null)])
+        if (next === null) {
+          for (const item of elicitations.drain()) {
+            const { serverName, request } = item
+            unanswered.add(item)
+            const respond = (result: ElicitResult) => {
+              unanswered.delete(item)
+              item.respond(result)
+            }
+            yield customStreamEvent('on_elicitation', serverName ?? 'mcp', {
+              serverName,
+              message: request.message,
+              requestedSchema: request.requestedSchema,
+              respond,
+            })
+          }
+          continue
+        }
+        nextEvent = null
+        if (next.done) {
+          return
+        }
+        yield next.value
+      }
+    }
+    finally {
+      // Cancel what the caller left unanswered so the tool calls waiting on
+      // it finish, which lets return() close the source after a pending next()
+      for (const item of unanswered) {
+        item.respond({ action: 'cancel' })
+      }
+      detach()
+      nextEvent?.catch(() => {})
+      await iterator.return?.()
+    }
+  }
+
   /**
    * Yields LangChain StreamEvent objects from the underlying streamEvents() method.
    * This provides token-level streaming and fine-grained event updates.
+   * Progress reported by MCP tools is yielded as `on_tool_progress` events
+   * named after the tool, with `{ progress, total?, message? }` as data.
+   * Aborting `signal` cancels the run like it does for `stream()`.
    */
   public async* streamEvents<T = string>(
     query: string,
@@ -959,6 +1205,7 @@ export class MCPAgent {
     manageConnector = true,
     externalHistory?: BaseMessage[],
     outputSchema?: ZodSchema<T>,
+    signal?: AbortSignal,
   ): AsyncGenerator<StreamEvent, void, void> {
     let initializedHere = false
     const startTime = Date.now()
@@ -983,10 +1230,15 @@ export class MCPAgent {
         initializedHere = true
       }
 
-      const agentExecutor = (this as any).agentExecutor
+      await this.refreshToolsIfStale()
+
+      let agentExecutor = (this as any).agentExecutor
       if (!agentExecutor) {
         throw new Error('MCP agent failed to initialize')
       }
+      if (signal) {
+        agentExecutor = this.executorForRun(agentExecutor, signal)
+      }
 
       // Set max iterations
       const steps = maxSteps ?? this.maxSteps
@@ -1025,11 +1277,12 @@ export class MCPAgent {
         {
           version: 'v2',
           callbacks: this.callbacks.length > 0 ? this.callbacks : undefined,
+          signal,
         },
       )
 
-      // Yield each event
-      for await (const event of eventStream) {
+      // Yield each event, interleaved with elicitation requests from servers
+      for await (const event of this.withElicitations(eventStream)) {
         eventCount++
 
         // Skip null or invalid events
@@ -1037,6 +1290,12 @@ export class MCPAgent {
           continue
         }
 
+        if (event.event === 'on_custom_event' && event.name === TOOL_PROGRESS_EVENT) {
+          const { tool, ...progress } = event.data as unknown as ToolProgressEventData
+          yield customStreamEvent('on_tool_progress', tool, progress, event)
+          continue
+        }
+
         // Track response length for telemetry
         if (event.event === 'on_chat_model_stream' && event.data?.chunk?.content) {
           totalResponseLength += event.data.chunk.content.length
@@ -1059,6 +1318,8 @@ export class MCPAgent {
         }
       }
 
+      signal?.throwIfAborted()
+
       // Convert to structured output if requested
       if (outputSchema && finalResponse) {
         logger.info('🔧 Attempting structured output conversion...')
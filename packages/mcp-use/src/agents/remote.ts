@@ -153,6 +153,7 @@ export class RemoteAgent {
     manageConnector?: boolean,
     externalHistory?: BaseMessage[],
     outputSchema?: ZodSchema<T>,
+    signal?: AbortSignal,
   ): Promise<T> {
     /**
      * Run a query on the remote agent.
@@ -194,7 +195,9 @@ export class RemoteAgent {
         method: 'POST',
         headers,
         body: JSON.stringify(executionPayload),
-        signal: AbortSignal.timeout(300000), // 5 minute timeout
+        signal: signal
+          ? AbortSignal.any([signal, AbortSignal.timeout(300000)])
+          : AbortSignal.timeout(300000), // 5 minute timeout
       })
 
       if (!response.ok) {
@@ -288,6 +291,10 @@ export class RemoteAgent {
       }
     }
     catch (e) {
+      if (signal?.aborted) {
+        logger.info('🛑 Remote execution aborted')
+        throw signal.reason
+      }
       if (e instanceof Error) {
         // Check for specific error types
         if (e.name === 'AbortError') {
@@ -312,12 +319,13 @@ export class RemoteAgent {
     manageConnector?: boolean,
     externalHistory?: BaseMessage[],
     outputSchema?: ZodSchema<T>,
+    signal?: AbortSignal,
   ): AsyncGenerator<any, T, void> {
     /**
      * Stream implementation for remote agent - currently just wraps run.
      * In the future, this could be enhanced to support actual streaming from the API.
      */
-    const result = await this.run(query, maxSteps, manageConnector, externalHistory, outputSchema)
+    const result = await this.run(query, maxSteps, manageConnector, externalHistory, outputSchema, signal)
     return result
   }
 
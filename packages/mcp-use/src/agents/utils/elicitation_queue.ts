@@ -0,0 +1,90 @@
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js'
+import type { ElicitationHandler, ElicitationRequest } from '../../elicitation.js'
+import { logger } from '../../logging.js'
+
+/**
+ * An elicitation waiting for the caller. The server's request stays open
+ * until `respond` is called.
+ */
+export interface PendingElicitation {
+  serverName?: string
+  request: ElicitationRequest
+  respond: (result: ElicitResult) => void
+}
+
+/**
+ * Hands elicitation requests from servers to whoever is consuming the agent's
+ * event stream. Requests that arrive while nobody is consuming are cancelled.
+ */
+export class ElicitationQueue {
+  private readonly pending: PendingElicitation[] = []
+  private readonly waiters = new Set<() => void>()
+  private consumers = 0
+
+  readonly handler: ElicitationHandler = (request, context) => {
+    if (this.consumers === 0) {
+      logger.warn(`Cancelling elicitation from ${context.serverName ?? 'server'}: no streamEvents() consumer to answer it`)
+      return Promise.resolve({ action: 'cancel' })
+    }
+
+    return new Promise<ElicitResult>((resolve, reject) => {
+      let settled = false
+      const item: PendingElicitation = {
+        serverName: context.serverName,
+        request,
+        respond: (result) => {
+          if (!settled) {
+            settled = true
+            resolve(result)
+          }
+        },
+      }
+      context.signal?.addEventListener('abort', () => {
+        settled = true
+        this.remove(item)
+        reject(context.signal!.reason ?? new Error('Elicitation was cancelled by the server'))
+      }, { once: true })
+
+      this.pending.push(item)
+      for (const wakeUp of this.waiters) {
+        wakeUp()
+      }
+      this.waiters.clear()
+    })
+  }
+
+  /** Register a stream consumer; returns a function that unregisters it. */
+  attach(): () => void {
+    this.consumers++
+    return () => {
+      this.consumers--
+      if (this.consumers === 0) {
+        for (const item of this.pending.splice(0)) {
+          item.respond({ action: 'cancel' })
+        }
+      }
+    }
+  }
+
+  /** Resolves once at least one elicitation is pending. */
+  waitForPending(): Promise<void> {
+    if (this.pending.length > 0) {
+      return Promise.resolve()
+    }
+    return new Promise((resolve) => {
+      this.waiters.add(resolve)
+    })
+  }
+
+  /** Remove and return all pending elicitations. */
+  drain(): PendingElicitation[] {
+    return this.pending.splice(0)
+  }
+
+  private remove(item: PendingElicitation): void {
+    const index = this.pending.indexOf(item)
+    if (index !== -1) {
+      this.pending.splice(index, 1)
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import type { Notification, Request, Result } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPMiddleware, MiddlewareContext, NextRequestHandler } from './middleware.js'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { logger } from './logging.js'
+
+/** A request sent to the server and the server's answer. */
+export interface CassetteRequest {
+  type: 'request'
+  /** Server the request went to, when recorded through `MCPClient.use`. */
+  serverName?: string
+  method: string
+  params?: Request['params']
+  result?: Result
+  error?: { code: number, message: string, data?: unknown }
+}
+
+/** A notification received from the server. */
+export interface CassetteNotification {
+  type: 'notification'
+  serverName?: string
+  method: string
+  params?: Notification['params']
+}
+
+export type CassetteEntry = CassetteRequest | CassetteNotification
+
+/**
+ * Recorded MCP traffic, in the order it happened. Notifications are replayed
+ * after the response to the request that precedes them.
+ */
+export interface Cassette {
+  version: 1
+  entries: CassetteEntry[]
+}
+
+/**
+ * Read a cassette written by `CassetteRecorder.save`.
+ */
+export function loadCassette(filepath: string): Cassette {
+  let cassette: Cassette
+  try {
+    cassette = JSON.parse(readFileSync(filepath, 'utf-8'))
+  }
+  catch (e) {
+    throw new Error(`Failed to read cassette '${filepath}': ${e instanceof Error ? e.message : e}`)
+  }
+  if (cassette?.version !== 1 || !Array.isArray(cassette.entries)) {
+    throw new Error(`Cassette '${filepath}' is not a version 1 cassette`)
+  }
+  return cassette
+}
+
+/** Strip the prefix `McpError` adds, so a replayed error has the same message. */
+function recordedError(error: unknown): NonNullable<CassetteRequest['error']> {
+  if (error instanceof McpError) {
+    return {
+      code: error.code,
+      message: error.message.replace(/^MCP error -?\d+: /, ''),
+      ...(error.data !== undefined && { data: error.data }),
+    }
+  }
+  return { code: ErrorCode.InternalError, message: error instanceof Error ? error.message : String(error) }
+}
+
+/**
+ * Middleware that records requests, results, errors and notifications into a
+ * cassette for `ReplayConnector`. Register it with `connector.use(recorder)`
+ * for one server, or `client.use(recorder)` to record every server, tagged
+ * with its name.
+ *
+ * Only traffic from the client to the server and the notifications it
+ * receives are recorded. Progress notifications and requests the server
+ * sends to the client (`sampling/createMessage`, `elicitation/create`,
+ * `roots/list`) are not, so a replayed session never makes them: test
+ * sampling and elicitation handlers against a live or in-process server.
+ */
+export class CassetteRecorder implements MCPMiddleware {
+  readonly entries: CassetteEntry[] = []
+
+  /**
+   * @param filepath Default file for `save()`.
+   */
+  constructor(private readonly filepath?: string) {}
+
+  async request(request: Request, next: NextRequestHandler, context: MiddlewareContext): Promise<Result> {
+    // Added before sending, so notifications received during the request follow it
+    const entry: CassetteRequest = {
+      type: 'request',
+      ...(context.serverName !== undefined && { serverName: context.serverName }),
+      method: request.method,
+      ...(request.params && { params: request.params }),
+    }
+    this.entries.push(entry)
+    try {
+      const result = await next(request)
+      entry.result = result
+      return result
+    }
+    catch (e) {
+      entry.error = recordedError(e)
+      throw e
+    }
+  }
+
+  notification(notification: Notification, context: MiddlewareContext): Notification {
+    this.entries.push({
+      type: 'notification',
+      ...(context.serverName !== undefined && { serverName: context.serverName }),
+      method: notification.method,
+      ...(notification.params && { params: notification.params }),
+    })
+    return notification
+  }
+
+  toJSON(): Cassette {
+    return { version: 1, entries: this.entries }
+  }
+
+  /** Write the recorded traffic to `filepath`, or to the file given to the constructor. */
+  save(filepath = this.filepath): void {
+    if (!filepath) {
+      throw new Error('No cassette file given to save the recording to')
+    }
+    writeFileSync(filepath, `${JSON.stringify(this.toJSON(), null, 2)}\n`)
+    logger.debug(`Saved ${this.entries.length} MCP interactions to '${filepath}'`)
+  }
+}
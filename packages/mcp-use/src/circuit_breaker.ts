@@ -0,0 +1,113 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { logger } from './logging.js'
+import { isRetryableError } from './retry.js'
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  /** Consecutive server failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number
+  /**
+   * How long the circuit stays open before a single probe request is let
+   * through, in milliseconds. Defaults to 30000.
+   */
+  resetTimeoutMs?: number
+  /** Decide whether an error means the server is failing. Defaults to `isServerFailure`. */
+  isFailure?: (error: unknown) => boolean
+}
+
+/**
+ * Whether an error shows that the server itself is failing: a transient error
+ * (see `isRetryableError`), a request timeout or a closed connection. Errors
+ * the server answered deliberately, such as invalid params, do not count.
+ */
+export function isServerFailure(error: unknown): boolean {
+  if (error instanceof McpError && (error.code === ErrorCode.RequestTimeout || error.code === ErrorCode.ConnectionClosed)) {
+    return true
+  }
+  return isRetryableError(error)
+}
+
+/**
+ * Fails requests fast while a server is down. After `failureThreshold`
+ * consecutive failures the circuit opens and requests are rejected without
+ * reaching the server. Once `resetTimeoutMs` has passed, one probe request is
+ * let through: its success closes the circuit, its failure opens it again.
+ */
+export class CircuitBreaker {
+  readonly failureThreshold: number
+  readonly resetTimeoutMs: number
+  private readonly isFailure: (error: unknown) => boolean
+  private failures = 0
+  private openedAt: number | null = null
+  private probing = false
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5)
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000
+    this.isFailure = options.isFailure ?? isServerFailure
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed'
+    }
+    return this.probing || Date.now() - this.openedAt >= this.resetTimeoutMs ? 'half-open' : 'open'
+  }
+
+  /**
+   * Run `fn` unless the circuit is open.
+   *
+   * @throws An error saying the server is unavailable when the circuit is open
+   *         or a probe is already in flight.
+   */
+  async run<T>(description: string, fn: () => Promise<T>): Promise<T> {
+    const state = this.state
+    if (state === 'open' || (state === 'half-open' && this.probing)) {
+      const retryInS = Math.ceil((this.openedAt! + this.resetTimeoutMs - Date.now()) / 1000)
+      throw new Error(
+        `${description} failed: server unavailable after ${this.failures} consecutive failures`
+        + (retryInS > 0 ? `, will retry in ${retryInS}s` : ', a probe request is in progress'),
+      )
+    }
+
+    const probe = state === 'half-open'
+    this.probing = probe
+    try {
+      const result = await fn()
+      this.recordSuccess()
+      return result
+    }
+    catch (e) {
+      if (this.isFailure(e)) {
+        this.recordFailure(e, probe)
+      }
+      else if (e instanceof McpError) {
+        // The server answered, even if with an error
+        this.recordSuccess()
+      }
+      throw e
+    }
+    finally {
+      if (probe) {
+        this.probing = false
+      }
+    }
+  }
+
+  private recordSuccess(): void {
+    if (this.openedAt !== null) {
+      logger.info('Server recovered, closing circuit')
+    }
+    this.failures = 0
+    this.openedAt = null
+  }
+
+  private recordFailure(error: unknown, probe: boolean): void {
+    this.failures++
+    if (probe || (this.openedAt === null && this.failures >= this.failureThreshold)) {
+      logger.warn(`Opening circuit after ${this.failures} consecutive failures, last: ${error}`)
+      this.openedAt = Date.now()
+    }
+  }
+}
@@ -1,8 +1,42 @@
+import type { BaseMCPClientOptions } from './client/base.js'
+import type { ServerConfigChange } from './client/events.js'
+import type { ConfigLoadOptions } from './config.js'
+import type { VSCodeImportOptions } from './config/importers.js'
+import type { MCPClientConfig, MCPServerConfig } from './config/schema.js'
 import type { BaseConnector } from './connectors/base.js'
 import fs from 'node:fs'
 import path from 'node:path'
+import { cloneDeep, isEqual } from 'lodash-es'
 import { BaseMCPClient } from './client/base.js'
-import { createConnectorFromConfig, loadConfigFile } from './config.js'
+import { createConnectorFromConfig, readConfigFile, resolveConfig } from './config.js'
+import {
+  defaultClaudeDesktopConfigPath,
+  defaultCursorConfigPath,
+  defaultVSCodeConfigPath,
+  importClaudeDesktopConfig,
+  importCursorConfig,
+  importVSCodeConfig,
+  readJsoncFile,
+} from './config/importers.js'
+import { logger } from './logging.js'
+
+export interface ConfigFileOptions extends ConfigLoadOptions {
+  /**
+   * Watch the config file and apply changes to running sessions.
+   * See `MCPClient.watchConfig`.
+   */
+  watch?: boolean
+  /** Delay before a detected file change is reloaded (ms). Defaults to 100. */
+  watchDebounceMs?: number
+}
+
+export interface MCPClientOptions extends ConfigFileOptions, BaseMCPClientOptions {}
+
+/**
+ * Options for clients created from another application's config, such as
+ * `MCPClient.fromCursorConfig`. These configs are not watched.
+ */
+export interface ImportedConfigOptions extends ConfigLoadOptions, BaseMCPClientOptions {}
 
 /**
  * Node.js-specific MCPClient implementation
@@ -13,44 +47,234 @@ import { createConnectorFromConfig, loadConfigFile } from './config.js'
  * - All connector types including StdioConnector
  */
 export class MCPClient extends BaseMCPClient {
-  constructor(config?: string | Record<string, any>) {
+  /**
+   * The config as written on disk (with `${VAR}` placeholders) alongside the
+   * resolved config it produced, so `saveConfig` can write placeholders back.
+   */
+  private configSource: { raw: Record<string, any>, resolved: MCPClientConfig } | null = null
+  private configPath: string | null = null
+  private configOptions: ConfigFileOptions = {}
+  private configWatcher: fs.FSWatcher | null = null
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null
+  private reloadQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(config?: string | MCPClientConfig, options: MCPClientOptions = {}) {
     if (config) {
       if (typeof config === 'string') {
-        super(loadConfigFile(config))
+        const raw = readConfigFile(config)
+        const resolved = resolveConfig(raw, config, options)
+        super(resolved, options)
+        this.configSource = { raw, resolved: cloneDeep(resolved) }
+        this.configPath = config
+        this.configOptions = options
+        if (options.watch) {
+          this.watchConfig()
+        }
       }
       else {
-        super(config)
+        super(config, options)
       }
     }
     else {
-      super()
+      super(undefined, options)
+    }
+  }
+
+  public static fromDict(cfg: MCPClientConfig, options: BaseMCPClientOptions = {}): MCPClient {
+    return new MCPClient(cfg, options)
+  }
+
+  public static fromConfigFile(path: string, options: MCPClientOptions = {}): MCPClient {
+    return new MCPClient(path, options)
+  }
+
+  /**
+   * Create a client from the servers configured in Claude Desktop.
+   *
+   * @param filepath Path of `claude_desktop_config.json`; defaults to the
+   *                 platform's standard location.
+   * @param options  Config loading and client options.
+   */
+  public static fromClaudeDesktopConfig(filepath = defaultClaudeDesktopConfigPath(), options: ImportedConfigOptions = {}): MCPClient {
+    return MCPClient.fromImportedConfig(importClaudeDesktopConfig(readConfigFile(filepath)), filepath, options)
+  }
+
+  /**
+   * Create a client from the servers configured in Cursor.
+   *
+   * @param filepath Path of a Cursor `mcp.json`; defaults to `~/.cursor/mcp.json`.
+   * @param options  Config loading and client options.
+   */
+  public static fromCursorConfig(filepath = defaultCursorConfigPath(), options: ImportedConfigOptions = {}): MCPClient {
+    return MCPClient.fromImportedConfig(importCursorConfig(readConfigFile(filepath)), filepath, options)
+  }
+
+  /**
+   * Create a client from the servers configured in VS Code.
+   *
+   * @param filepath Path of `.vscode/mcp.json` or a `settings.json` with an
+   *                 `mcp` section; defaults to `.vscode/mcp.json` in the
+   *                 current directory.
+   * @param options  Values for `${input:<id>}` prompts and `${workspaceFolder}`,
+   *                 plus the usual config loading and client options.
+   */
+  public static fromVSCodeConfig(
+    filepath = defaultVSCodeConfigPath(),
+    options: VSCodeImportOptions & ImportedConfigOptions = {},
+  ): MCPClient {
+    const raw = readJsoncFile(filepath)
+    const imported = importVSCodeConfig(raw, { ...options, configPath: filepath })
+    // Inputs are often password prompts, so `saveConfig` keeps their placeholders
+    const source = importVSCodeConfig(raw, { ...options, configPath: filepath, keepInputs: true })
+    return MCPClient.fromImportedConfig(imported, filepath, options, source)
+  }
+
+  private static fromImportedConfig(
+    imported: MCPClientConfig,
+    filepath: string,
+    options: ImportedConfigOptions,
+    source: MCPClientConfig = imported,
+  ): MCPClient {
+    const resolved = resolveConfig(imported, filepath, options)
+    const client = new MCPClient(resolved, options)
+    client.configSource = { raw: source, resolved: cloneDeep(resolved) }
+    return client
+  }
+
+  /**
+   * Re-read the config file and apply the differences to running sessions.
+   * Reloads are serialized; see `updateConfig` for how sessions are handled.
+   *
+   * @returns The server changes that were applied.
+   */
+  public reloadConfig(): Promise<ServerConfigChange[]> {
+    const configPath = this.configPath
+    if (!configPath) {
+      return Promise.reject(new Error('reloadConfig requires a client created from a config file'))
+    }
+
+    const reload = async () => {
+      const raw = readConfigFile(configPath)
+      const resolved = resolveConfig(raw, configPath, this.configOptions)
+      const changes = await this.updateConfig(resolved)
+      this.configSource = { raw, resolved: cloneDeep(resolved) }
+      return changes
+    }
+    const result = this.reloadQueue.then(reload, reload)
+    this.reloadQueue = result.catch(() => {})
+    return result
+  }
+
+  /**
+   * Watch the config file (and its `.env` file, if one is used) and reload it
+   * on change. Failed reloads keep the current config and emit
+   * `configReloadFailed`. The watcher does not keep the process alive.
+   */
+  public watchConfig(): void {
+    if (!this.configPath) {
+      throw new Error('watchConfig requires a client created from a config file')
+    }
+    if (this.configWatcher) {
+      return
     }
+
+    const dir = path.dirname(path.resolve(this.configPath))
+    const watched = new Set([path.basename(this.configPath)])
+    const { envFile } = this.configOptions
+    if (envFile) {
+      const envPath = path.resolve(dir, typeof envFile === 'string' ? envFile : '.env')
+      if (path.dirname(envPath) === dir) {
+        watched.add(path.basename(envPath))
+      }
+    }
+
+    // Watch the directory rather than the file so editors that save by
+    // replacing the file (new inode) keep triggering reloads.
+    this.configWatcher = fs.watch(dir, (_event, filename) => {
+      if (filename && !watched.has(filename.toString())) {
+        return
+      }
+      this.scheduleReload()
+    })
+    this.configWatcher.unref()
+    logger.debug(`Watching config file ${this.configPath}`)
   }
 
-  public static fromDict(cfg: Record<string, any>): MCPClient {
-    return new MCPClient(cfg)
+  /** Stop watching the config file. */
+  public unwatchConfig(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer)
+      this.reloadTimer = null
+    }
+    this.configWatcher?.close()
+    this.configWatcher = null
   }
 
-  public static fromConfigFile(path: string): MCPClient {
-    return new MCPClient(loadConfigFile(path))
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer)
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null
+      this.reloadConfig()
+        .then((changes) => {
+          if (changes.length) {
+            logger.info(`Reloaded config file ${this.configPath}: ${changes.length} server(s) changed`)
+          }
+        })
+        .catch((e) => {
+          const error = e instanceof Error ? e : new Error(String(e))
+          logger.error(`Failed to reload config file ${this.configPath}: ${error.message}`)
+          this.emit('configReloadFailed', { error })
+        })
+    }, this.configOptions.watchDebounceMs ?? 100)
+    this.reloadTimer.unref?.()
   }
 
   /**
    * Save configuration to a file (Node.js only)
+   *
+   * Entries that are unchanged since the config was loaded from disk are
+   * written with their original `${VAR}` placeholders instead of the resolved
+   * values, so secrets are not persisted. In-process servers are left out.
    */
   public saveConfig(filepath: string): void {
     const dir = path.dirname(filepath)
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true })
     }
-    fs.writeFileSync(filepath, JSON.stringify(this.config, null, 2), 'utf-8')
+    fs.writeFileSync(filepath, JSON.stringify(this.getConfigWithPlaceholders(), null, 2), 'utf-8')
   }
 
   /**
    * Create a connector from server configuration (Node.js version)
    * Supports all connector types including StdioConnector
    */
-  protected createConnectorFromConfig(serverConfig: Record<string, any>): BaseConnector {
+  protected createConnectorFromConfig(serverConfig: MCPServerConfig): BaseConnector {
     return createConnectorFromConfig(serverConfig)
   }
+
+  private getConfigWithPlaceholders(): Record<string, any> {
+    const { raw, resolved } = this.configSource ?? { raw: this.config, resolved: this.config }
+    const pick = (current: any, loaded: any, original: any) => isEqual(current, loaded) ? original : current
+
+    const output: Record<string, any> = {}
+    for (const [key, value] of Object.entries(this.config)) {
+      if (key === 'mcpServers') {
+        output.mcpServers = Object.fromEntries(
+          Object.entries(value ?? {})
+            // In-process servers are live objects that cannot be written to a file
+            .filter(([, serverConfig]) => !('inProcess' in (serverConfig as object)))
+            .map(([name, serverConfig]) => [
+              name,
+              pick(serverConfig, resolved.mcpServers?.[name], raw.mcpServers?.[name]),
+            ]),
+        )
+      }
+      else {
+        output[key] = pick(value, resolved[key], raw[key])
+      }
+    }
+    return output
+  }
 }
@@ -1,6 +1,111 @@
+import type { MCPClientConfig, MCPServerConfig } from '../config/schema.js'
 import type { BaseConnector } from '../connectors/base.js'
-import { logger } from '../logging.js'
+import type { LoggingLevel, Notification } from '@modelcontextprotocol/sdk/types.js'
+import type { ElicitationHandler } from '../elicitation.js'
+import type { SamplingHandler } from '../sampling.js'
+import type { MCPSessionOptions } from '../session.js'
+import type { MCPMiddleware } from '../middleware.js'
+import type { RetryOptions } from '../retry.js'
+import type { ToolCacheOptions } from '../tool_cache.js'
+import type { LogLevel } from '../logging.js'
+import type { MCPClientEvents, ServerConfigChange, ServerLogEntry } from './events.js'
+import { validateClientConfig, validateServerConfig } from '../config/schema.js'
+import { Logger, logger } from '../logging.js'
+import { MiddlewareChain } from '../middleware.js'
 import { MCPSession } from '../session.js'
+import { ToolResultCache } from '../tool_cache.js'
+import { TypedEventEmitter } from '../utils/event_emitter.js'
+import { withTimeout } from '../utils/timeout.js'
+import { diffServerConfigs } from './events.js'
+
+export interface BaseMCPClientOptions {
+  /** Health check and reconnect options applied to every session the client creates. */
+  session?: MCPSessionOptions
+  /**
+   * Answers `sampling/createMessage` requests from servers. Must be set
+   * before sessions are created for the capability to be advertised.
+   */
+  samplingHandler?: SamplingHandler
+  /**
+   * Answers `elicitation/create` requests from servers. Must be set before
+   * sessions are created for the capability to be advertised.
+   */
+  elicitationHandler?: ElicitationHandler
+  /**
+   * Receives log messages sent by servers. Defaults to writing them to the
+   * mcp-use logger, labelled with the server name.
+   */
+  onServerLog?: (entry: ServerLogEntry) => void
+  /**
+   * Cache results of read-only and idempotent tools, shared by all sessions.
+   * Pass `true` for the defaults, options, or a `ToolResultCache` instance.
+   * Disabled by default.
+   */
+  toolCache?: boolean | ToolCacheOptions | ToolResultCache
+  /**
+   * Default retry policy for servers whose config has no `retry` entry.
+   * Disabled by default.
+   */
+  retry?: RetryOptions
+  /** Middleware for every server, as if registered with `use` in this order. */
+  middleware?: MCPMiddleware[]
+}
+
+export interface CreateSessionOptions {
+  /**
+   * Maximum time in milliseconds to connect and initialize the session. On
+   * timeout the connector is disconnected and the call rejects. Unlimited by default.
+   */
+  timeoutMs?: number
+}
+
+export interface CreateAllSessionsOptions {
+  /** Maximum number of servers connected at the same time. Defaults to 10. */
+  concurrency?: number
+  /** Per-server connection timeout in milliseconds. Defaults to 60000; `0` disables it. */
+  timeoutMs?: number
+}
+
+export interface ServerConnectionResult {
+  serverName: string
+  durationMs: number
+}
+
+export interface ServerConnectionFailure extends ServerConnectionResult {
+  error: Error
+}
+
+/**
+ * Outcome of `createAllSessionsWithReport`. Every server the call tried to connect is
+ * listed in exactly one of `connected` or `failed`.
+ */
+export interface SessionsReport {
+  /** All sessions of the client after the call, including pre-existing ones. */
+  sessions: Record<string, MCPSession>
+  connected: ServerConnectionResult[]
+  failed: ServerConnectionFailure[]
+}
+
+const DEFAULT_SESSION_CONCURRENCY = 10
+const DEFAULT_SESSION_TIMEOUT_MS = 60_000
+
+const SERVER_LOG_LEVELS: Record<LoggingLevel, LogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  notice: 'info',
+  warning: 'warn',
+  error: 'error',
+  critical: 'error',
+  alert: 'error',
+  emergency: 'error',
+}
+
+/** Write a server log message to a logger labelled with the server name. */
+function writeServerLog(entry: ServerLogEntry): void {
+  const text = typeof entry.data === 'string' ? entry.data : JSON.stringify(entry.data)
+  const level = SERVER_LOG_LEVELS[entry.level] ?? 'info'
+  Logger.child(entry.serverName)[level](entry.logger ? `${entry.logger}: ${text}` : text)
+}
 
 /**
  * Base MCPClient class with shared functionality
@@ -8,23 +113,52 @@ import { MCPSession } from '../session.js'
  * This class contains all the common logic that works in both Node.js and browser environments.
  * Platform-specific implementations should extend this class and override methods as needed.
  */
-export abstract class BaseMCPClient {
-  protected config: Record<string, any> = {}
+export abstract class BaseMCPClient extends TypedEventEmitter<MCPClientEvents> {
+  protected config: MCPClientConfig = {}
   protected sessions: Record<string, MCPSession> = {}
   public activeSessions: string[] = []
+  protected readonly sessionOptions: MCPSessionOptions
+  private sessionListeners: Record<string, () => void> = {}
+  protected samplingHandler: SamplingHandler | null
+  protected elicitationHandler: ElicitationHandler | null
+  private readonly onServerLog: (entry: ServerLogEntry) => void
+  private serverLogLevels: Record<string, LoggingLevel> = {}
+  private readonly toolCache: ToolResultCache | null
+  private readonly retry: RetryOptions | null
+  private readonly middleware: MCPMiddleware[]
 
-  constructor(config?: Record<string, any>) {
+  /**
+   * @param config  Client configuration. Every `mcpServers` entry is validated
+   *                up front; an invalid entry throws an error naming the server
+   *                and the offending JSON path.
+   * @param options Client-wide options such as session health monitoring.
+   */
+  constructor(config?: MCPClientConfig, options: BaseMCPClientOptions = {}) {
+    super()
+    this.sessionOptions = options.session ?? {}
+    this.samplingHandler = options.samplingHandler ?? null
+    this.elicitationHandler = options.elicitationHandler ?? null
+    this.onServerLog = options.onServerLog ?? writeServerLog
+    this.toolCache = options.toolCache instanceof ToolResultCache
+      ? options.toolCache
+      : options.toolCache ? new ToolResultCache(options.toolCache === true ? {} : options.toolCache) : null
+    this.retry = options.retry ?? null
+    this.middleware = [...(options.middleware ?? [])]
     if (config) {
-      this.config = config
+      this.config = validateClientConfig(config)
     }
   }
 
-  public static fromDict(_cfg: Record<string, any>): BaseMCPClient {
+  public static fromDict(_cfg: MCPClientConfig): BaseMCPClient {
     // This will be overridden by concrete implementations
     throw new Error('fromDict must be implemented by concrete class')
   }
 
-  public addServer(name: string, serverConfig: Record<string, any>): void {
+  /**
+   * Add (or replace) a server entry. The entry is validated before it is stored.
+   */
+  public addServer(name: string, serverConfig: MCPServerConfig): void {
+    validateServerConfig(name, serverConfig)
     this.config.mcpServers = this.config.mcpServers || {}
     this.config.mcpServers[name] = serverConfig
   }
@@ -40,23 +174,162 @@ export abstract class BaseMCPClient {
     return Object.keys(this.config.mcpServers ?? {})
   }
 
-  public getServerConfig(name: string): Record<string, any> {
+  public getServerConfig(name: string): MCPServerConfig | undefined {
     return this.config.mcpServers?.[name]
   }
 
-  public getConfig(): Record<string, any> {
+  public getConfig(): MCPClientConfig {
     return this.config ?? {}
   }
 
+  /**
+   * Replace the client configuration, touching only the sessions whose server
+   * entry changed: sessions of removed servers are closed, sessions of updated
+   * servers are recreated, and added servers get a session if the client
+   * already has active sessions. Emits `serverAdded` / `serverRemoved` /
+   * `serverUpdated` per change and a single `configChanged` at the end.
+   *
+   * @returns The list of server changes that were applied.
+   */
+  public async updateConfig(config: MCPClientConfig): Promise<ServerConfigChange[]> {
+    const next = validateClientConfig(config)
+    const changes = diffServerConfigs(this.config.mcpServers ?? {}, next.mcpServers ?? {})
+    const connectAdded = this.activeSessions.length > 0
+
+    const recreate = new Set<string>()
+    for (const change of changes) {
+      if (change.type !== 'added' && this.sessions[change.serverName]) {
+        await this.closeSession(change.serverName)
+        if (change.type === 'updated') {
+          recreate.add(change.serverName)
+        }
+      }
+    }
+
+    this.config = next
+
+    for (const change of changes) {
+      if (recreate.has(change.serverName) || (change.type === 'added' && connectAdded)) {
+        try {
+          await this.createSession(change.serverName)
+        }
+        catch (e) {
+          logger.error(`Failed to create session for server '${change.serverName}' after config change: ${e}`)
+        }
+      }
+      logger.info(`Server '${change.serverName}' ${change.type} in config`)
+      const event = ({ added: 'serverAdded', removed: 'serverRemoved', updated: 'serverUpdated' } as const)[change.type]
+      this.emit(event, change)
+    }
+
+    if (changes.length) {
+      this.emit('configChanged', { changes })
+    }
+    return changes
+  }
+
+  /**
+   * Set or clear the handler for server sampling requests. Applies to existing
+   * sessions that negotiated sampling and to sessions created afterwards.
+   */
+  public setSamplingHandler(handler: SamplingHandler | null): void {
+    this.samplingHandler = handler
+    for (const [serverName, session] of Object.entries(this.sessions)) {
+      session.connector.setSamplingHandler(this.samplingHandlerFor(serverName))
+    }
+  }
+
+  public getSamplingHandler(): SamplingHandler | null {
+    return this.samplingHandler
+  }
+
+  /** Tag sampling requests with the name of the server that sent them. */
+  private samplingHandlerFor(serverName: string): SamplingHandler | null {
+    const handler = this.samplingHandler
+    return handler && ((request, context) => handler(request, { ...context, serverName }))
+  }
+
+  /**
+   * Set or clear the handler for server elicitation requests. Applies to
+   * existing sessions that negotiated elicitation and to sessions created afterwards.
+   */
+  public setElicitationHandler(handler: ElicitationHandler | null): void {
+    this.elicitationHandler = handler
+    for (const [serverName, session] of Object.entries(this.sessions)) {
+      session.connector.setElicitationHandler(this.elicitationHandlerFor(serverName))
+    }
+  }
+
+  public getElicitationHandler(): ElicitationHandler | null {
+    return this.elicitationHandler
+  }
+
+  /** Tag elicitation requests with the name of the server that sent them. */
+  private elicitationHandlerFor(serverName: string): ElicitationHandler | null {
+    const handler = this.elicitationHandler
+    return handler && ((request, context) => handler(request, { ...context, serverName }))
+  }
+
+  /**
+   * Register middleware for requests to and notifications from every server.
+   * Applies to existing sessions and to sessions created afterwards. The
+   * middleware context carries the server name.
+   *
+   * @returns A function that removes the middleware.
+   */
+  public use(middleware: MCPMiddleware): () => void {
+    this.middleware.push(middleware)
+    return () => {
+      const index = this.middleware.indexOf(middleware)
+      if (index !== -1) {
+        this.middleware.splice(index, 1)
+      }
+    }
+  }
+
+  /** Run the client's current middleware for one server's connector. */
+  private middlewareFor(serverName: string): MCPMiddleware {
+    const chain = () => {
+      const result = new MiddlewareChain()
+      for (const middleware of this.middleware) {
+        result.add(middleware, { serverName })
+      }
+      return result
+    }
+    return {
+      request: (request, next) => chain().request(request, next),
+      notification: notification => chain().notification(notification),
+    }
+  }
+
+  /** The cache shared by all sessions for tool results, or `null` if caching is off. */
+  public getToolCache(): ToolResultCache | null {
+    return this.toolCache
+  }
+
+  /**
+   * Change the minimum severity of log messages a server sends, overriding
+   * its configured `logLevel`. Applied to the active session, if any, and to
+   * sessions created later.
+   */
+  public async setServerLogLevel(serverName: string, level: LoggingLevel): Promise<void> {
+    if (!this.config.mcpServers?.[serverName]) {
+      throw new Error(`Server '${serverName}' not found in config`)
+    }
+    this.serverLogLevels[serverName] = level
+    await this.sessions[serverName]?.setLogLevel(level)
+  }
+
   /**
    * Create a connector from server configuration
    * This method must be implemented by platform-specific subclasses
    */
-  protected abstract createConnectorFromConfig(serverConfig: Record<string, any>): BaseConnector
+  protected abstract createConnectorFromConfig(serverConfig: MCPServerConfig): BaseConnector
 
   public async createSession(
     serverName: string,
     autoInitialize = true,
+    options: CreateSessionOptions = {},
   ): Promise<MCPSession> {
     const servers = this.config.mcpServers ?? {}
 
@@ -69,33 +342,161 @@ export abstract class BaseMCPClient {
     }
 
     const connector = this.createConnectorFromConfig(servers[serverName])
-    const session = new MCPSession(connector)
+    if (this.samplingHandler) {
+      connector.setSamplingHandler(this.samplingHandlerFor(serverName))
+    }
+    if (this.elicitationHandler) {
+      connector.setElicitationHandler(this.elicitationHandlerFor(serverName))
+    }
+    if (this.toolCache) {
+      connector.setToolCache(this.toolCache, serverName)
+    }
+    connector.use(this.middlewareFor(serverName))
+    if (this.retry && servers[serverName].retry === undefined) {
+      connector.setRetryPolicy(this.retry)
+    }
+    if (this.serverLogLevels[serverName]) {
+      await connector.setLogLevel(this.serverLogLevels[serverName])
+    }
+    const session = new MCPSession(connector, true, this.sessionOptions)
+    const detachListeners = this.attachSessionListeners(serverName, session)
 
     if (autoInitialize) {
-      await session.initialize()
+      let settled = false
+      const initializing = session.initialize().finally(() => {
+        settled = true
+      })
+      try {
+        await withTimeout(
+          initializing,
+          options.timeoutMs,
+          `Timed out after ${options.timeoutMs}ms connecting to server '${serverName}'`,
+        )
+      }
+      catch (e) {
+        detachListeners()
+        // A timed-out connect keeps going; disconnect once it settles so a
+        // late connection does not leave a process or transport behind
+        const cleanup = initializing
+          .catch(() => {})
+          .then(() => session.disconnect())
+          .catch((disconnectError) => {
+            logger.debug(`Error disconnecting server '${serverName}' after failed initialization: ${disconnectError}`)
+          })
+        if (settled) {
+          await cleanup
+        }
+        throw e
+      }
     }
 
+    this.sessionListeners[serverName]?.()
+    this.sessionListeners[serverName] = detachListeners
     this.sessions[serverName] = session
     if (!this.activeSessions.includes(serverName)) {
       this.activeSessions.push(serverName)
     }
+    this.emit('sessionCreated', { serverName, session })
     return session
   }
 
+  /**
+   * Re-emit a session's connection events and its server's notifications as
+   * client events tagged with `serverName`.
+   *
+   * @returns A function that detaches all listeners.
+   */
+  private attachSessionListeners(serverName: string, session: MCPSession): () => void {
+    const unsubscribers = [
+      session.on('connectionLost', ({ error }) => this.emit('connectionLost', { serverName, error })),
+      session.on('reconnected', ({ attempts }) => this.emit('reconnected', { serverName, attempts })),
+      session.connector.onNotification(notification => this.handleServerNotification(serverName, notification)),
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }
+
+  protected handleServerNotification(serverName: string, notification: Notification): void {
+    const params = (notification.params ?? {}) as Record<string, any>
+    if (notification.method === 'notifications/tools/list_changed') {
+      this.emit('toolsChanged', { serverName })
+    }
+    else if (notification.method === 'notifications/prompts/list_changed') {
+      this.emit('promptsChanged', { serverName })
+    }
+    else if (notification.method === 'notifications/resources/list_changed') {
+      this.emit('resourcesChanged', { serverName })
+    }
+    else if (notification.method === 'notifications/resources/updated') {
+      this.emit('resourcesChanged', { serverName, uri: params.uri })
+    }
+    else if (notification.method === 'notifications/message') {
+      const entry: ServerLogEntry = { serverName, level: params.level, logger: params.logger, data: params.data }
+      this.onServerLog(entry)
+      this.emit('serverLog', entry)
+    }
+    else {
+      logger.debug(`Unhandled notification '${notification.method}' from server '${serverName}'`)
+    }
+  }
+
+  /**
+   * Create a session for every configured server that does not have one yet.
+   *
+   * Servers are connected in parallel (up to `options.concurrency` at a time)
+   * and failures are isolated: a server that errors or exceeds
+   * `options.timeoutMs` is logged and skipped, and does not prevent the
+   * others from connecting. Use `createAllSessionsWithReport` to find out
+   * which servers failed.
+   *
+   * @returns All sessions of the client, keyed by server name.
+   */
   public async createAllSessions(
     autoInitialize = true,
+    options: CreateAllSessionsOptions = {},
   ): Promise<Record<string, MCPSession>> {
+    const { sessions } = await this.createAllSessionsWithReport(autoInitialize, options)
+    return sessions
+  }
+
+  /**
+   * Like `createAllSessions`, but report how connecting each server went.
+   * Servers that already have a session are left untouched and are not
+   * listed in the report.
+   */
+  public async createAllSessionsWithReport(
+    autoInitialize = true,
+    options: CreateAllSessionsOptions = {},
+  ): Promise<SessionsReport> {
     const servers = this.config.mcpServers ?? {}
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_SESSION_CONCURRENCY)
+    const timeoutMs = options.timeoutMs ?? DEFAULT_SESSION_TIMEOUT_MS
 
     if (Object.keys(servers).length === 0) {
       logger.warn('No MCP servers defined in config')
     }
 
-    for (const name of Object.keys(servers)) {
-      await this.createSession(name, autoInitialize)
+    const pending = Object.keys(servers).filter(name => !this.sessions[name])
+    const report: SessionsReport = { sessions: this.sessions, connected: [], failed: [] }
+
+    const worker = async (): Promise<void> => {
+      for (let name = pending.shift(); name !== undefined; name = pending.shift()) {
+        const start = Date.now()
+        try {
+          await this.createSession(name, autoInitialize, { timeoutMs })
+          report.connected.push({ serverName: name, durationMs: Date.now() - start })
+        }
+        catch (e) {
+          const error = e instanceof Error ? e : new Error(String(e))
+          logger.warn(`Failed to create session for server '${name}': ${error.message}`)
+          report.failed.push({ serverName: name, error, durationMs: Date.now() - start })
+        }
+      }
     }
 
-    return this.sessions
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker))
+
+    report.sessions = this.sessions
+    return report
   }
 
   public getSession(serverName: string): MCPSession | null {
@@ -126,8 +527,11 @@ export abstract class BaseMCPClient {
       logger.error(`Error closing session for server '${serverName}': ${e}`)
     }
     finally {
+      this.sessionListeners[serverName]?.()
+      delete this.sessionListeners[serverName]
       delete this.sessions[serverName]
       this.activeSessions = this.activeSessions.filter(n => n !== serverName)
+      this.emit('sessionClosed', { serverName })
     }
   }
 
@@ -0,0 +1,90 @@
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPServerConfig } from '../config/schema.js'
+import type { MCPSession } from '../session.js'
+import { isEqual } from 'lodash-es'
+
+/**
+ * A change to a single `mcpServers` entry, produced when the client config is
+ * replaced (for example by a config file reload).
+ */
+export interface ServerConfigChange {
+  serverName: string
+  type: 'added' | 'removed' | 'updated'
+  /** The entry before the change; absent for `added`. */
+  previousConfig?: MCPServerConfig
+  /** The entry after the change; absent for `removed`. */
+  config?: MCPServerConfig
+}
+
+/**
+ * A `notifications/message` log entry sent by a server.
+ */
+export interface ServerLogEntry {
+  serverName: string
+  level: LoggingLevel
+  /** Name of the server-side logger, if provided. */
+  logger?: string
+  data: unknown
+}
+
+/**
+ * Events emitted by `MCPClient`. Subscribe with `client.on(event, listener)`.
+ */
+export interface MCPClientEvents {
+  /** A session was created and initialized. */
+  sessionCreated: (event: { serverName: string, session: MCPSession }) => void
+  /** A session was closed through `closeSession` / `closeAllSessions`. */
+  sessionClosed: (event: { serverName: string }) => void
+  /** A session lost its connection; it may be reconnecting. */
+  connectionLost: (event: { serverName: string, error: Error }) => void
+  /** A session re-established its connection. */
+  reconnected: (event: { serverName: string, attempts: number }) => void
+  /**
+   * A server announced that its tool list changed. The session's tools cache
+   * has already been refreshed when this is emitted.
+   */
+  toolsChanged: (event: { serverName: string }) => void
+  /** A server announced that its prompt list changed. */
+  promptsChanged: (event: { serverName: string }) => void
+  /**
+   * A server announced that its resource list changed, or, with `uri`, that
+   * a subscribed resource was updated.
+   */
+  resourcesChanged: (event: { serverName: string, uri?: string }) => void
+  /** A server sent a log message. */
+  serverLog: (entry: ServerLogEntry) => void
+  serverAdded: (change: ServerConfigChange) => void
+  serverRemoved: (change: ServerConfigChange) => void
+  serverUpdated: (change: ServerConfigChange) => void
+  /** Emitted once per config update that changed at least one server. */
+  configChanged: (event: { changes: ServerConfigChange[] }) => void
+  /** Emitted when a watched config file could not be reloaded. */
+  configReloadFailed: (event: { error: Error }) => void
+}
+
+/**
+ * Compare two `mcpServers` maps.
+ */
+export function diffServerConfigs(
+  previous: Record<string, MCPServerConfig>,
+  next: Record<string, MCPServerConfig>,
+): ServerConfigChange[] {
+  const changes: ServerConfigChange[] = []
+
+  for (const [serverName, previousConfig] of Object.entries(previous)) {
+    if (!(serverName in next)) {
+      changes.push({ serverName, type: 'removed', previousConfig })
+    }
+    else if (!isEqual(previousConfig, next[serverName])) {
+      changes.push({ serverName, type: 'updated', previousConfig, config: next[serverName] })
+    }
+  }
+
+  for (const [serverName, config] of Object.entries(next)) {
+    if (!(serverName in previous)) {
+      changes.push({ serverName, type: 'added', config })
+    }
+  }
+
+  return changes
+}
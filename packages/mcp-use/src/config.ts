@@ -1,41 +1,135 @@
+import type { Root } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPClientConfig, MCPServerConfig } from './config/schema.js'
 import type { BaseConnector } from './connectors/base.js'
 import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { interpolateConfig, loadConfigEnv } from './config/interpolation.js'
+import { inferServerTransport, validateClientConfig } from './config/schema.js'
 import { HttpConnector } from './connectors/http.js'
+import { InMemoryConnector } from './connectors/in_memory.js'
 import { StdioConnector } from './connectors/stdio.js'
 import { WebSocketConnector } from './connectors/websocket.js'
 
-export function loadConfigFile(filepath: string): Record<string, any> {
+export interface ConfigLoadOptions {
+  /**
+   * Expand `${VAR}` and `${VAR:-default}` placeholders in string fields.
+   * Defaults to `true`.
+   */
+  interpolate?: boolean
+  /**
+   * Load variables from a `.env` file: `true` for the file next to the config,
+   * or a path relative to the config's directory. Variables already present in
+   * `process.env` take precedence.
+   */
+  envFile?: boolean | string
+}
+
+/**
+ * Read and parse a config file as-is, without interpolation or validation.
+ */
+export function readConfigFile(filepath: string): Record<string, any> {
   const raw = readFileSync(filepath, 'utf-8')
-  return JSON.parse(raw)
+  try {
+    return JSON.parse(raw)
+  }
+  catch (e) {
+    throw new Error(`Failed to parse config file '${filepath}': ${e instanceof Error ? e.message : e}`)
+  }
+}
+
+/**
+ * Interpolate and validate a config previously read from `filepath`.
+ */
+export function resolveConfig(
+  rawConfig: Record<string, any>,
+  filepath: string,
+  options: ConfigLoadOptions = {},
+): MCPClientConfig {
+  const config = options.interpolate === false
+    ? rawConfig
+    : interpolateConfig(rawConfig, loadConfigEnv(filepath, options.envFile))
+  return validateClientConfig(config)
+}
+
+export function loadConfigFile(filepath: string, options: ConfigLoadOptions = {}): MCPClientConfig {
+  return resolveConfig(readConfigFile(filepath), filepath, options)
+}
+
+/**
+ * Turn configured roots into MCP `Root`s. Plain paths are resolved against
+ * the working directory and converted to `file://` URIs.
+ */
+export function resolveRoots(roots: NonNullable<Extract<MCPServerConfig, { roots?: unknown }>['roots']>): Root[] {
+  return roots.map((root) => {
+    if (typeof root !== 'string') {
+      return root
+    }
+    return /^[a-z][\w+.-]*:\/\//i.test(root)
+      ? { uri: root }
+      : { uri: pathToFileURL(path.resolve(root)).href, name: path.basename(root) }
+  })
 }
 
 export function createConnectorFromConfig(
-  serverConfig: Record<string, any>,
+  serverConfig: MCPServerConfig,
 ): BaseConnector {
-  if ('command' in serverConfig && 'args' in serverConfig) {
+  const transport = inferServerTransport(serverConfig)
+  const roots = 'roots' in serverConfig && serverConfig.roots ? resolveRoots(serverConfig.roots) : undefined
+  const logLevel = 'logLevel' in serverConfig ? serverConfig.logLevel : undefined
+  const retry = serverConfig.retry || undefined
+  const { circuitBreaker, rateLimit, allowedTools, disabledTools } = serverConfig
+  const toolFilter = allowedTools || disabledTools ? { allowedTools, disabledTools } : undefined
+
+  if (transport === 'stdio' && 'command' in serverConfig) {
     return new StdioConnector({
       command: serverConfig.command,
-      args: serverConfig.args,
+      args: serverConfig.args ?? [],
       env: serverConfig.env,
+      roots,
+      logLevel,
+      retry,
+      circuitBreaker,
+      rateLimit,
+      toolFilter,
     })
   }
 
-  if ('url' in serverConfig) {
+  if ((transport === 'http' || transport === 'sse') && 'url' in serverConfig) {
     // HttpConnector automatically handles streamable HTTP with SSE fallback
-    const transport = serverConfig.transport || 'http'
-
     return new HttpConnector(serverConfig.url, {
       headers: serverConfig.headers,
       authToken: serverConfig.auth_token || serverConfig.authToken,
       // Only force SSE if explicitly requested
-      preferSse: serverConfig.preferSse || transport === 'sse',
+      preferSse: ('preferSse' in serverConfig && serverConfig.preferSse) || transport === 'sse',
+      roots,
+      logLevel,
+      retry,
+      circuitBreaker,
+      rateLimit,
+      toolFilter,
     })
   }
 
-  if ('ws_url' in serverConfig) {
+  if (transport === 'websocket' && 'ws_url' in serverConfig) {
     return new WebSocketConnector(serverConfig.ws_url, {
       headers: serverConfig.headers,
-      authToken: serverConfig.auth_token,
+      authToken: serverConfig.auth_token || serverConfig.authToken,
+      retry,
+      circuitBreaker,
+      rateLimit,
+      toolFilter,
+    })
+  }
+
+  if (transport === 'in-process' && 'inProcess' in serverConfig) {
+    return new InMemoryConnector(serverConfig.inProcess, {
+      roots,
+      logLevel,
+      retry,
+      circuitBreaker,
+      rateLimit,
+      toolFilter,
     })
   }
 
@@ -0,0 +1,246 @@
+import type { MCPClientConfig, MCPServerConfig } from './schema.js'
+import { readFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import process from 'node:process'
+import { logger } from '../logging.js'
+
+/**
+ * An entry of the `inputs` array in a VS Code MCP config. VS Code prompts the
+ * user for these; here they must be supplied through `VSCodeImportOptions.inputs`.
+ */
+export interface VSCodeInputDefinition {
+  id: string
+  type: 'promptString' | 'pickString' | string
+  description?: string
+  password?: boolean
+  default?: string
+  options?: string[]
+}
+
+export interface VSCodeImportOptions {
+  /** Values for `${input:<id>}` placeholders, keyed by input id. */
+  inputs?: Record<string, string>
+  /**
+   * Value of `${workspaceFolder}`. Defaults to the parent of the `.vscode`
+   * directory holding the config, or the current working directory.
+   */
+  workspaceFolder?: string
+}
+
+type ImportSource = 'Claude Desktop' | 'Cursor' | 'VS Code'
+
+/** `${env:VAR}` as written in Cursor and VS Code configs. */
+const ENV_REFERENCE = /\$\{env:(\w+)\}/g
+
+function normalizeServerEntry(name: string, entry: Record<string, any>, source: ImportSource): MCPServerConfig {
+  const type: string | undefined = entry.type ?? entry.transport
+
+  if (typeof entry.command === 'string') {
+    return {
+      command: entry.command,
+      ...(entry.args !== undefined && { args: entry.args }),
+      ...(entry.env !== undefined && { env: entry.env }),
+    }
+  }
+
+  if (typeof entry.url === 'string') {
+    const headers = entry.headers !== undefined ? { headers: entry.headers } : {}
+    return type === 'sse'
+      ? { transport: 'sse', url: entry.url, ...headers }
+      : { url: entry.url, ...headers }
+  }
+
+  throw new Error(`Cannot import MCP server '${name}' from ${source} config: expected 'command' or 'url'`)
+}
+
+function normalizeServers(servers: unknown, source: ImportSource): MCPClientConfig {
+  if (!servers || typeof servers !== 'object' || Array.isArray(servers)) {
+    throw new Error(`Invalid ${source} config: expected an object of MCP servers`)
+  }
+
+  const mcpServers: Record<string, MCPServerConfig> = {}
+  for (const [name, entry] of Object.entries(servers as Record<string, any>)) {
+    if (entry?.disabled === true) {
+      logger.debug(`Skipping disabled MCP server '${name}' from ${source} config`)
+      continue
+    }
+    mcpServers[name] = normalizeServerEntry(name, entry ?? {}, source)
+  }
+  return { mcpServers }
+}
+
+/**
+ * Convert a Claude Desktop `claude_desktop_config.json` to an mcp-use config.
+ */
+export function importClaudeDesktopConfig(raw: Record<string, any>): MCPClientConfig {
+  return normalizeServers(raw.mcpServers ?? {}, 'Claude Desktop')
+}
+
+/**
+ * Convert a Cursor `mcp.json` (global or per project) to an mcp-use config.
+ * `${env:VAR}` is rewritten to `${VAR}` so it is expanded by config
+ * interpolation.
+ */
+export function importCursorConfig(raw: Record<string, any>): MCPClientConfig {
+  const servers = mapStrings(raw.mcpServers ?? {}, value => value.replace(ENV_REFERENCE, '${$1}'))
+  return normalizeServers(servers, 'Cursor')
+}
+
+/**
+ * Return the `inputs` declared by a VS Code config, so callers can prompt for
+ * them before importing. Accepts both `.vscode/mcp.json` and a `settings.json`
+ * with an `mcp` section.
+ */
+export function getVSCodeConfigInputs(raw: Record<string, any>): VSCodeInputDefinition[] {
+  const section = raw.mcp ?? raw
+  return Array.isArray(section.inputs) ? section.inputs : []
+}
+
+/**
+ * Convert a VS Code MCP config to an mcp-use config.
+ *
+ * Reads the `servers` map (from `.vscode/mcp.json` or the `mcp` section of a
+ * `settings.json`), maps the `type` field to a transport, substitutes
+ * `${input:<id>}`, `${workspaceFolder}` and `${userHome}`, and rewrites
+ * `${env:VAR}` to `${VAR}` so it is expanded by config interpolation.
+ * With `keepInputs`, `${input:<id>}` placeholders are left in place instead.
+ *
+ * @throws If a referenced input has no value in `options.inputs` and no default.
+ */
+export function importVSCodeConfig(
+  raw: Record<string, any>,
+  options: VSCodeImportOptions & { configPath?: string, keepInputs?: boolean } = {},
+): MCPClientConfig {
+  const section = raw.mcp ?? raw
+  const inputs = new Map(getVSCodeConfigInputs(raw).map(input => [input.id, input]))
+  const workspaceFolder = options.workspaceFolder ?? defaultWorkspaceFolder(options.configPath)
+
+  const substitute = (value: string): string => value.replace(/\$\{(\w+)(?::([^}]+))?\}/g, (match, kind: string, arg?: string) => {
+    if (kind === 'env' && arg) {
+      return `\${${arg}}`
+    }
+    if (kind === 'input' && arg) {
+      if (options.keepInputs) {
+        return match
+      }
+      const provided = options.inputs?.[arg] ?? inputs.get(arg)?.default
+      if (provided === undefined) {
+        const description = inputs.get(arg)?.description
+        throw new Error(`VS Code input '${arg}'${description ? ` (${description})` : ''} is required; pass it in options.inputs`)
+      }
+      return provided
+    }
+    if (kind === 'workspaceFolder' && !arg) {
+      return workspaceFolder
+    }
+    if (kind === 'userHome' && !arg) {
+      return os.homedir()
+    }
+    return match
+  })
+
+  return normalizeServers(mapStrings(section.servers ?? {}, substitute), 'VS Code')
+}
+
+/** Apply `fn` to every string in a JSON value. */
+function mapStrings(value: unknown, fn: (value: string) => string): unknown {
+  if (typeof value === 'string') {
+    return fn(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, fn))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]))
+  }
+  return value
+}
+
+/**
+ * Read a JSON file that may contain comments and trailing commas, as VS Code's
+ * `settings.json` and `mcp.json` commonly do.
+ */
+export function readJsoncFile(filepath: string): Record<string, any> {
+  const text = readFileSync(filepath, 'utf-8')
+  let output = ''
+  let inString = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      output += char
+      if (char === '\\') {
+        output += text[++i] ?? ''
+      }
+      else if (char === '"') {
+        inString = false
+      }
+    }
+    else if (char === '"') {
+      inString = true
+      output += char
+    }
+    else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++
+      output += '\n'
+    }
+    else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2)
+      if (i === -1) {
+        break
+      }
+      i++
+    }
+    else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      // Drop trailing comma
+    }
+    else {
+      output += char
+    }
+  }
+
+  try {
+    return JSON.parse(output)
+  }
+  catch (e) {
+    throw new Error(`Failed to parse config file '${filepath}': ${e instanceof Error ? e.message : e}`)
+  }
+}
+
+function defaultWorkspaceFolder(configPath?: string): string {
+  if (configPath) {
+    const dir = path.dirname(path.resolve(configPath))
+    if (path.basename(dir) === '.vscode') {
+      return path.dirname(dir)
+    }
+  }
+  return process.cwd()
+}
+
+/**
+ * Default location of the Claude Desktop config on the current platform.
+ */
+export function defaultClaudeDesktopConfigPath(): string {
+  switch (process.platform) {
+    case 'darwin':
+      return path.join(os.homedir(), 'Library', 'Application Support', 'Claude', 'claude_desktop_config.json')
+    case 'win32':
+      return path.join(process.env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming'), 'Claude', 'claude_desktop_config.json')
+    default:
+      return path.join(os.homedir(), '.config', 'Claude', 'claude_desktop_config.json')
+  }
+}
+
+/**
+ * Default location of the global Cursor MCP config.
+ */
+export function defaultCursorConfigPath(): string {
+  return path.join(os.homedir(), '.cursor', 'mcp.json')
+}
+
+/**
+ * Default location of the VS Code workspace MCP config.
+ */
+export function defaultVSCodeConfigPath(): string {
+  return path.join(process.cwd(), '.vscode', 'mcp.json')
+}
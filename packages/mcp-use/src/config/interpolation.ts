@@ -0,0 +1,87 @@
+import { existsSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import process from 'node:process'
+import { parse as parseDotenv } from 'dotenv'
+import { formatPath } from './schema.js'
+
+export type ConfigEnv = Record<string, string | undefined>
+
+/**
+ * Matches `${VAR}`, `${VAR:-default}` and the escaped form `$${VAR}`, which is
+ * kept verbatim as `${VAR}`.
+ */
+const PLACEHOLDER_PATTERN = /\$(\$)?\{([A-Z_]\w*)(?::-([^}]*))?\}/gi
+
+/**
+ * Expand placeholders in a single string.
+ *
+ * @param value The string to expand.
+ * @param env   Variables available for substitution.
+ * @param where JSON path of the value, used in error messages.
+ * @throws      If a variable without a default is not set.
+ */
+export function interpolateString(value: string, env: ConfigEnv, where = 'value'): string {
+  return value.replace(PLACEHOLDER_PATTERN, (match, escaped: string | undefined, name: string, fallback: string | undefined) => {
+    if (escaped) {
+      return match.slice(1)
+    }
+    const resolved = env[name]
+    // Like the shell, `:-` also uses the default for a variable set to ''
+    if (fallback !== undefined) {
+      return resolved || fallback
+    }
+    if (resolved !== undefined) {
+      return resolved
+    }
+    throw new Error(`Environment variable '${name}' referenced at ${where} is not set`)
+  })
+}
+
+function interpolateValue(value: unknown, env: ConfigEnv, segments: (string | number)[]): unknown {
+  if (typeof value === 'string') {
+    return interpolateString(value, env, formatPath(segments))
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateValue(item, env, [...segments, index]))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateValue(item, env, [...segments, key])]),
+    )
+  }
+  return value
+}
+
+/**
+ * Return a copy of `config` with `${VAR}` / `${VAR:-default}` placeholders
+ * expanded in every string field. The input is left untouched.
+ */
+export function interpolateConfig<T>(config: T, env: ConfigEnv = process.env): T {
+  return interpolateValue(config, env, []) as T
+}
+
+/**
+ * Build the variables used to interpolate a config file.
+ *
+ * @param configPath Path of the config file.
+ * @param envFile    `true` to read the `.env` file next to the config, or an
+ *                   explicit path. Values already set in `process.env` win.
+ */
+export function loadConfigEnv(configPath: string, envFile?: boolean | string): ConfigEnv {
+  if (!envFile) {
+    return process.env
+  }
+
+  const envPath = typeof envFile === 'string'
+    ? path.resolve(path.dirname(configPath), envFile)
+    : path.join(path.dirname(configPath), '.env')
+
+  if (!existsSync(envPath)) {
+    if (typeof envFile === 'string') {
+      throw new Error(`Env file '${envPath}' does not exist`)
+    }
+    return process.env
+  }
+
+  return { ...parseDotenv(readFileSync(envPath)), ...process.env }
+}
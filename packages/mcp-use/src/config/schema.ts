@@ -0,0 +1,314 @@
+import type { ZodIssue } from 'zod'
+import type { InProcessServer } from '../connectors/in_memory.js'
+import { z } from 'zod'
+import { logger } from '../logging.js'
+
+/**
+ * Transports that can be described by an `mcpServers` entry.
+ */
+export type MCPServerTransport = 'stdio' | 'http' | 'sse' | 'websocket' | 'in-process'
+
+const headersSchema = z.record(z.string())
+
+/**
+ * Filesystem roots exposed to the server: a path or URI, or `{ uri, name }`.
+ */
+const rootsSchema = z.array(z.union([
+  z.string().min(1),
+  z.object({ uri: z.string().min(1), name: z.string().optional() }).strict(),
+]))
+
+/**
+ * Minimum severity of log messages the server should send.
+ */
+const logLevelSchema = z.enum(['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'])
+
+/**
+ * Retry policy for transient failures, or `false` to disable retries for the
+ * server even when the client sets a default policy.
+ */
+const retrySchema = z.union([
+  z.literal(false),
+  z.object({
+    maxAttempts: z.number().int().min(1).optional(),
+    initialDelayMs: z.number().min(0).optional(),
+    maxDelayMs: z.number().min(0).optional(),
+    backoffMultiplier: z.number().min(1).optional(),
+    jitter: z.boolean().optional(),
+    excludeTools: z.array(z.string()).optional(),
+    retryTools: z.array(z.string()).optional(),
+  }).strict(),
+])
+
+/**
+ * Stop sending requests to a server after repeated failures.
+ */
+const circuitBreakerSchema = z.object({
+  failureThreshold: z.number().int().min(1).optional(),
+  resetTimeoutMs: z.number().min(0).optional(),
+}).strict()
+
+/**
+ * Limits on concurrent requests and request rate for a server.
+ */
+const rateLimitSchema = z.object({
+  maxConcurrent: z.number().int().min(1).optional(),
+  requestsPerSecond: z.number().positive().optional(),
+}).strict()
+
+/**
+ * A tool name pattern with `*` and `?` wildcards, or annotation hints a tool
+ * must declare, such as `{ "destructiveHint": true }`.
+ */
+const toolPatternSchema = z.union([
+  z.string().min(1),
+  z.object({
+    readOnlyHint: z.boolean().optional(),
+    destructiveHint: z.boolean().optional(),
+    idempotentHint: z.boolean().optional(),
+    openWorldHint: z.boolean().optional(),
+  }).strict().refine(hints => Object.keys(hints).length > 0, 'Expected at least one annotation hint'),
+])
+
+export const stdioServerConfigSchema = z.object({
+  transport: z.literal('stdio').optional(),
+  command: z.string().min(1, 'command must not be empty'),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  roots: rootsSchema.optional(),
+  logLevel: logLevelSchema.optional(),
+  retry: retrySchema.optional(),
+  circuitBreaker: circuitBreakerSchema.optional(),
+  rateLimit: rateLimitSchema.optional(),
+  allowedTools: z.array(toolPatternSchema).optional(),
+  disabledTools: z.array(toolPatternSchema).optional(),
+})
+
+export const httpServerConfigSchema = z.object({
+  transport: z.literal('http').optional(),
+  url: z.string().url(),
+  headers: headersSchema.optional(),
+  auth_token: z.string().optional(),
+  authToken: z.string().optional(),
+  preferSse: z.boolean().optional(),
+  roots: rootsSchema.optional(),
+  logLevel: logLevelSchema.optional(),
+  retry: retrySchema.optional(),
+  circuitBreaker: circuitBreakerSchema.optional(),
+  rateLimit: rateLimitSchema.optional(),
+  allowedTools: z.array(toolPatternSchema).optional(),
+  disabledTools: z.array(toolPatternSchema).optional(),
+})
+
+export const sseServerConfigSchema = z.object({
+  transport: z.literal('sse'),
+  url: z.string().url(),
+  headers: headersSchema.optional(),
+  auth_token: z.string().optional(),
+  authToken: z.string().optional(),
+  roots: rootsSchema.optional(),
+  logLevel: logLevelSchema.optional(),
+  retry: retrySchema.optional(),
+  circuitBreaker: circuitBreakerSchema.optional(),
+  rateLimit: rateLimitSchema.optional(),
+  allowedTools: z.array(toolPatternSchema).optional(),
+  disabledTools: z.array(toolPatternSchema).optional(),
+})
+
+export const websocketServerConfigSchema = z.object({
+  transport: z.literal('websocket').optional(),
+  ws_url: z.string().url(),
+  headers: headersSchema.optional(),
+  auth_token: z.string().optional(),
+  authToken: z.string().optional(),
+  retry: retrySchema.optional(),
+  circuitBreaker: circuitBreakerSchema.optional(),
+  rateLimit: rateLimitSchema.optional(),
+  allowedTools: z.array(toolPatternSchema).optional(),
+  disabledTools: z.array(toolPatternSchema).optional(),
+})
+
+function isInProcessServer(value: unknown): value is InProcessServer {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  return ('connectTransport' in value && typeof value.connectTransport === 'function')
+    || ('connect' in value && typeof value.connect === 'function')
+}
+
+/**
+ * A server running in the same process, connected through an in-memory
+ * transport. Only usable in configs built in code, not in config files.
+ */
+export const inProcessServerConfigSchema = z.object({
+  transport: z.literal('in-process').optional(),
+  inProcess: z.custom<InProcessServer>(isInProcessServer, 'Expected an MCP server instance'),
+  roots: rootsSchema.optional(),
+  logLevel: logLevelSchema.optional(),
+  retry: retrySchema.optional(),
+  circuitBreaker: circuitBreakerSchema.optional(),
+  rateLimit: rateLimitSchema.optional(),
+  allowedTools: z.array(toolPatternSchema).optional(),
+  disabledTools: z.array(toolPatternSchema).optional(),
+})
+
+export const serverConfigSchemas = {
+  stdio: stdioServerConfigSchema,
+  http: httpServerConfigSchema,
+  sse: sseServerConfigSchema,
+  websocket: websocketServerConfigSchema,
+  'in-process': inProcessServerConfigSchema,
+} as const
+
+export type StdioServerConfig = z.infer<typeof stdioServerConfigSchema>
+export type HttpServerConfig = z.infer<typeof httpServerConfigSchema>
+export type SseServerConfig = z.infer<typeof sseServerConfigSchema>
+export type WebSocketServerConfig = z.infer<typeof websocketServerConfigSchema>
+export type InProcessServerConfig = z.infer<typeof inProcessServerConfigSchema>
+
+/**
+ * A single entry of the `mcpServers` map.
+ *
+ * The transport is taken from the optional `transport` field, or inferred from
+ * the keys that are present (`command` → stdio, `ws_url` → websocket,
+ * `url` → http, `inProcess` → in-process).
+ */
+export type MCPServerConfig
+  = StdioServerConfig
+    | HttpServerConfig
+    | SseServerConfig
+    | WebSocketServerConfig
+    | InProcessServerConfig
+
+/**
+ * Top-level configuration accepted by `MCPClient` and `loadConfigFile`.
+ */
+export interface MCPClientConfig {
+  mcpServers?: Record<string, MCPServerConfig>
+  [key: string]: any
+}
+
+/** Keys that identify a transport when `transport` is not given. */
+const TRANSPORT_KEYS = ['command', 'url', 'ws_url', 'inProcess']
+
+/**
+ * Work out which transport a raw server config describes.
+ *
+ * @returns The transport, or `null` if it cannot be determined.
+ */
+export function inferServerTransport(serverConfig: Record<string, any>): MCPServerTransport | null {
+  if (typeof serverConfig.transport === 'string' && serverConfig.transport in serverConfigSchemas) {
+    return serverConfig.transport as MCPServerTransport
+  }
+  if ('transport' in serverConfig && serverConfig.transport !== undefined) {
+    return null
+  }
+  if ('command' in serverConfig) {
+    return 'stdio'
+  }
+  if ('ws_url' in serverConfig) {
+    return 'websocket'
+  }
+  if ('url' in serverConfig) {
+    return 'http'
+  }
+  if ('inProcess' in serverConfig) {
+    return 'in-process'
+  }
+  return null
+}
+
+/**
+ * Render a JSON path such as `mcpServers.my-server.args[1]`.
+ */
+export function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') {
+      return `${acc}[${segment}]`
+    }
+    return acc ? `${acc}.${segment}` : segment
+  }, '')
+}
+
+function formatIssue(basePath: (string | number)[], issue: ZodIssue): string {
+  return `${formatPath([...basePath, ...issue.path])}: ${issue.message}`
+}
+
+/**
+ * Validate a single `mcpServers` entry.
+ *
+ * @param name         The server name, used in error messages.
+ * @param serverConfig The raw server configuration.
+ * @returns            The same configuration, typed as `MCPServerConfig`.
+ * @throws             If the configuration is invalid. The message names the
+ *                     server and the JSON path of every offending field.
+ *                     Unknown keys are only logged as a warning, unless
+ *                     they belong to another transport.
+ */
+export function validateServerConfig(name: string, serverConfig: unknown): MCPServerConfig {
+  const basePath = ['mcpServers', name]
+  const fail = (details: string[]): never => {
+    throw new Error(`Invalid configuration for MCP server '${name}':\n  - ${details.join('\n  - ')}`)
+  }
+
+  if (!serverConfig || typeof serverConfig !== 'object' || Array.isArray(serverConfig)) {
+    return fail([`${formatPath(basePath)}: Expected an object`])
+  }
+
+  const transport = inferServerTransport(serverConfig as Record<string, any>)
+  if (!transport) {
+    const raw = serverConfig as Record<string, any>
+    if ('transport' in raw && raw.transport !== undefined) {
+      return fail([
+        `${formatPath([...basePath, 'transport'])}: Expected one of ${Object.keys(serverConfigSchemas).map(t => `'${t}'`).join(', ')}, received ${JSON.stringify(raw.transport)}`,
+      ])
+    }
+    return fail([
+      `${formatPath(basePath)}: Cannot determine transport; expected one of 'command' (stdio), 'url' (http/sse), 'ws_url' (websocket) or 'inProcess' (in-process)`,
+    ])
+  }
+
+  const schema = serverConfigSchemas[transport]
+  const result = schema.safeParse(serverConfig)
+  if (!result.success) {
+    return fail(result.error.issues.map(issue => formatIssue(basePath, issue)))
+  }
+
+  const unknownKeys = Object.keys(serverConfig).filter(key => !(key in schema.shape))
+  const formatKeys = (keys: string[]) => keys.map(key => `'${key}'`).join(', ')
+  // Keys that select another transport make the entry ambiguous
+  const conflicting = unknownKeys.filter(key => TRANSPORT_KEYS.includes(key))
+  if (conflicting.length > 0) {
+    return fail([`${formatPath(basePath)}: Unrecognized key(s) in object: ${formatKeys(conflicting)}, which select a different transport than '${transport}'`])
+  }
+  if (unknownKeys.length > 0) {
+    logger.warn(`Ignoring unknown key(s) in ${formatPath(basePath)}: ${formatKeys(unknownKeys)}`)
+  }
+  return serverConfig as MCPServerConfig
+}
+
+/**
+ * Validate a full client configuration, including every `mcpServers` entry.
+ *
+ * @param config The raw configuration object.
+ * @returns      The same configuration, typed as `MCPClientConfig`.
+ * @throws       If the configuration or any server entry is invalid.
+ */
+export function validateClientConfig(config: unknown): MCPClientConfig {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('Invalid MCP client configuration: expected an object')
+  }
+
+  const { mcpServers } = config as Record<string, any>
+  if (mcpServers === undefined) {
+    return config as MCPClientConfig
+  }
+  if (!mcpServers || typeof mcpServers !== 'object' || Array.isArray(mcpServers)) {
+    throw new Error('Invalid MCP client configuration: mcpServers: Expected an object mapping server names to configs')
+  }
+
+  for (const [name, serverConfig] of Object.entries(mcpServers)) {
+    validateServerConfig(name, serverConfig)
+  }
+  return config as MCPClientConfig
+}
@@ -1,8 +1,42 @@
 import type { Client, ClientOptions } from '@modelcontextprotocol/sdk/client/index.js'
-import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js'
-import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js'
+import type { ProgressCallback, RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type {
+  CallToolResult,
+  CompleteRequest,
+  CompleteResult,
+  Implementation,
+  ListPromptsResult,
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ListToolsResult,
+  LoggingLevel,
+  Notification,
+  Prompt,
+  ReadResourceResult,
+  Request,
+  Resource,
+  ResourceTemplate,
+  Result,
+  Root,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js'
+import type { CircuitBreakerOptions, CircuitState } from '../circuit_breaker.js'
+import type { ElicitationHandler } from '../elicitation.js'
+import type { MCPMiddleware, MiddlewareContext, NextRequestHandler } from '../middleware.js'
+import type { RateLimitOptions } from '../rate_limiter.js'
+import type { RetryOptions } from '../retry.js'
+import type { SamplingHandler } from '../sampling.js'
 import type { ConnectionManager } from '../task_managers/base.js'
+import type { ToolResultCache } from '../tool_cache.js'
+import type { ToolFilterOptions } from '../tool_filter.js'
+import { CreateMessageRequestSchema, ElicitRequestSchema, ListRootsRequestSchema, ResultSchema } from '@modelcontextprotocol/sdk/types.js'
+import { validateElicitationContent } from '../elicitation.js'
+import { CircuitBreaker } from '../circuit_breaker.js'
 import { logger } from '../logging.js'
+import { MiddlewareChain } from '../middleware.js'
+import { RateLimiter } from '../rate_limiter.js'
+import { RetryPolicy } from '../retry.js'
+import { ToolFilter } from '../tool_filter.js'
 
 export interface ConnectorInitOptions {
   /**
@@ -14,6 +48,102 @@ export interface ConnectorInitOptions {
    * methods when they issue SDK requests. Can be overridden per‑call.
    */
   defaultRequestOptions?: RequestOptions
+  /**
+   * Answers `sampling/createMessage` requests from the server. The sampling
+   * capability is only advertised when a handler is set before `connect()`.
+   */
+  samplingHandler?: SamplingHandler
+  /**
+   * Answers `elicitation/create` requests from the server. The elicitation
+   * capability is only advertised when a handler is set before `connect()`.
+   */
+  elicitationHandler?: ElicitationHandler
+  /**
+   * Roots returned for `roots/list`. The roots capability is only advertised
+   * when roots are set before `connect()`.
+   */
+  roots?: Root[]
+  /**
+   * Minimum severity of `notifications/message` logs the server should send.
+   * Sent with `logging/setLevel` on `initialize()` if the server supports logging.
+   */
+  logLevel?: LoggingLevel
+  /**
+   * Cache for results of read-only or idempotent tools. Entries are keyed by
+   * the connector's `publicIdentifier` unless `setToolCache` names the server.
+   */
+  toolCache?: ToolResultCache
+  /**
+   * Retry `request` and `callTool` on transient failures such as dropped
+   * connections, 429/503 responses and JSON-RPC internal errors.
+   */
+  retry?: RetryOptions
+  /**
+   * Reject requests to the server immediately while it keeps failing,
+   * instead of waiting for every request to time out.
+   */
+  circuitBreaker?: CircuitBreakerOptions
+  /** Limit in-flight requests and requests per second to the server. */
+  rateLimit?: RateLimitOptions
+  /**
+   * Restrict which tools adapters expose and `callTool` accepts. Calls to
+   * other tools are rejected without reaching the server.
+   */
+  toolFilter?: ToolFilterOptions
+}
+
+export interface CallToolOptions extends RequestOptions {
+  /**
+   * Called for each `notifications/progress` the server sends while the tool
+   * runs. Setting it asks the server to report progress.
+   */
+  onProgress?: ProgressCallback
+  /** Set to `false` to bypass the tool result cache for this call. */
+  cache?: boolean
+  /** Set to `false` to not retry this call, e.g. because it is not idempotent. */
+  retry?: boolean
+}
+
+/** The prompt (`ref/prompt`) or resource template (`ref/resource`) being completed. */
+export type CompletionReference = CompleteRequest['params']['ref']
+
+/** The argument being completed and the value typed so far. */
+export type CompletionArgument = CompleteRequest['params']['argument']
+
+/** Suggested values, with `total` and `hasMore` when the server reports them. */
+export type Completion = CompleteResult['completion']
+
+/**
+ * Fetch every page of a paginated list request, following `nextCursor` until
+ * the server stops returning one.
+ */
+async function collectPages<P extends { nextCursor?: string }, T>(
+  fetchPage: (cursor?: string) => Promise<P>,
+  itemsOf: (page: P) => T[],
+): Promise<T[]> {
+  const items: T[] = []
+  const seenCursors = new Set<string>()
+  let cursor: string | undefined
+  do {
+    const page = await fetchPage(cursor)
+    items.push(...itemsOf(page))
+    cursor = page.nextCursor
+    if (cursor !== undefined) {
+      if (seenCursors.has(cursor)) {
+        throw new Error(`Server returned pagination cursor '${cursor}' more than once`)
+      }
+      seenCursors.add(cursor)
+    }
+  } while (cursor)
+  return items
+}
+
+/** Describe a request in errors, such as "Tool call 'search'" or "Request 'tools/list'". */
+function describeRequest(request: Request): string {
+  if (request.method === 'tools/call') {
+    return `Tool call '${String((request.params as { name?: unknown } | undefined)?.name)}'`
+  }
+  return `Request '${request.method}'`
 }
 
 /**
@@ -25,9 +155,238 @@ export abstract class BaseConnector {
   protected toolsCache: Tool[] | null = null
   protected connected = false
   protected readonly opts: ConnectorInitOptions
+  private readonly closeListeners = new Set<() => void>()
+  private readonly notificationListeners = new Set<(notification: Notification) => void>()
+  private readonly middleware = new MiddlewareChain()
+  protected samplingHandler: SamplingHandler | null
+  protected elicitationHandler: ElicitationHandler | null
+  protected roots: Root[] | null
+  private rootsAdvertised = false
+  protected logLevel: LoggingLevel | null
+  private toolCache: { cache: ToolResultCache, serverName?: string } | null
+  protected retryPolicy: RetryPolicy | null
+  protected circuitBreaker: CircuitBreaker | null
+  protected rateLimiter: RateLimiter | null
+  private toolFilter: ToolFilter | null
 
   constructor(opts: ConnectorInitOptions = {}) {
     this.opts = opts
+    this.samplingHandler = opts.samplingHandler ?? null
+    this.elicitationHandler = opts.elicitationHandler ?? null
+    this.roots = opts.roots ?? null
+    this.logLevel = opts.logLevel ?? null
+    this.toolCache = opts.toolCache ? { cache: opts.toolCache } : null
+    this.retryPolicy = opts.retry ? new RetryPolicy(opts.retry) : null
+    this.circuitBreaker = opts.circuitBreaker ? new CircuitBreaker(opts.circuitBreaker) : null
+    this.rateLimiter = opts.rateLimit ? new RateLimiter(opts.rateLimit) : null
+    this.toolFilter = opts.toolFilter ? new ToolFilter(opts.toolFilter) : null
+  }
+
+  /** The roots exposed to the server, or `null` if roots are not supported. */
+  getRoots(): Root[] | null {
+    return this.roots
+  }
+
+  /**
+   * Replace the roots exposed to the server. When connected with the roots
+   * capability, the server is sent `notifications/roots/list_changed`;
+   * otherwise the capability is advertised on the next connect.
+   */
+  async setRoots(roots: Root[]): Promise<void> {
+    this.roots = [...roots]
+    if (!this.client) {
+      return
+    }
+    if (!this.rootsAdvertised) {
+      logger.warn('Roots capability was not negotiated for this connection; the new roots apply after reconnecting')
+      return
+    }
+    await this.client.sendRootsListChanged()
+  }
+
+  /**
+   * Change the minimum severity of log messages the server sends. Applied
+   * immediately when connected, and again on every `initialize()`.
+   */
+  async setLogLevel(level: LoggingLevel): Promise<void> {
+    this.logLevel = level
+    if (!this.client) {
+      return
+    }
+    if (!this.client.getServerCapabilities()?.logging) {
+      logger.warn(`Server does not support logging; log level '${level}' was not applied`)
+      return
+    }
+    await this.client.setLoggingLevel(level)
+  }
+
+  /**
+   * Set or clear the cache for tool results.
+   *
+   * @param serverName Name used in cache keys; defaults to the connector's
+   *                   `publicIdentifier`.
+   */
+  setToolCache(cache: ToolResultCache | null, serverName?: string): void {
+    this.toolCache = cache && { cache, serverName }
+  }
+
+  /**
+   * Set or clear the policy for retrying transient failures. HTTP connectors
+   * only raise 429/5xx responses as retryable errors on connections opened
+   * while a policy is set.
+   */
+  setRetryPolicy(options: RetryOptions | null): void {
+    this.retryPolicy = options && new RetryPolicy(options)
+  }
+
+  /** Set or clear the circuit breaker. */
+  setCircuitBreaker(options: CircuitBreakerOptions | null): void {
+    this.circuitBreaker = options && new CircuitBreaker(options)
+  }
+
+  /** The circuit breaker's state, or `null` if there is no circuit breaker. */
+  getCircuitState(): CircuitState | null {
+    return this.circuitBreaker?.state ?? null
+  }
+
+  /** Set or clear the concurrency and rate limits. */
+  setRateLimit(options: RateLimitOptions | null): void {
+    this.rateLimiter = options && new RateLimiter(options)
+  }
+
+  /** Set or clear the filter on which tools may be used. */
+  setToolFilter(options: ToolFilterOptions | null): void {
+    this.toolFilter = options && new ToolFilter(options)
+  }
+
+  /**
+   * Whether the tool filter lets the tool be listed by adapters and called.
+   * Annotation patterns are matched against the cached tool definition.
+   */
+  isToolAllowed(name: string): boolean {
+    return this.toolFilter?.isAllowed(name, this.toolsCache?.find(t => t.name === name)) ?? true
+  }
+
+  /**
+   * Reject calls to tools the tool filter excludes. When annotation patterns
+   * are configured and the tool is not cached, the tool list is fetched
+   * first; tools the server does not list are rejected.
+   */
+  protected async assertToolAllowed(name: string): Promise<void> {
+    if (!this.toolFilter) {
+      return
+    }
+    let tool = this.toolsCache?.find(t => t.name === name)
+    if (!tool && this.toolFilter.usesAnnotations) {
+      tool = (await this.refreshTools()).find(t => t.name === name)
+      if (!tool) {
+        throw new Error(`Tool '${name}' is not listed by the server, so its annotations cannot be checked against the tool filter`)
+      }
+    }
+    if (!this.toolFilter.isAllowed(name, tool)) {
+      throw new Error(`Tool '${name}' is disabled for this server`)
+    }
+  }
+
+  /**
+   * Run a request, retrying transient failures per the retry policy unless
+   * `retry` is `false`. Each attempt goes through `guard` on its way out.
+   */
+  protected async send<T>(description: string, fn: () => Promise<T>, signal?: AbortSignal, retry = true): Promise<T> {
+    return retry && this.retryPolicy ? await this.retryPolicy.run(description, fn, signal) : await fn()
+  }
+
+  /**
+   * Pass one request to the server through the circuit breaker and rate
+   * limiter. Every request on the connection goes through here, including the
+   * initialize handshake, tool list refreshes and resource reads.
+   */
+  protected async guard<T>(request: Request, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const limited = this.rateLimiter ? () => this.rateLimiter!.run(fn, signal) : fn
+    return this.circuitBreaker ? await this.circuitBreaker.run(describeRequest(request), limited) : await limited()
+  }
+
+  /**
+   * Set or clear the handler for server sampling requests. The capability is
+   * negotiated on connect, so a handler set afterwards only takes effect if
+   * one was already present, or after reconnecting.
+   */
+  setSamplingHandler(handler: SamplingHandler | null): void {
+    this.samplingHandler = handler
+  }
+
+  /**
+   * Set or clear the handler for server elicitation requests. Like
+   * `setSamplingHandler`, the capability is negotiated on connect.
+   */
+  setElicitationHandler(handler: ElicitationHandler | null): void {
+    this.elicitationHandler = handler
+  }
+
+  /**
+   * Register middleware that sees every request to this connector's server
+   * and every notification from it. Takes effect immediately, also for an
+   * existing connection.
+   *
+   * @returns A function that removes the middleware.
+   */
+  use(middleware: MCPMiddleware, context?: MiddlewareContext): () => void {
+    return this.middleware.add(middleware, context)
+  }
+
+  /**
+   * Pass an outgoing request through the registered middleware before
+   * `send`ing it. Tool calls are checked against the tool filter after
+   * middleware, so a tool name rewritten by middleware is checked too.
+   */
+  protected async interceptRequest(request: Request, send: NextRequestHandler): Promise<Result> {
+    const checked: NextRequestHandler = async (next) => {
+      // Also covers tool calls sent with `request()` instead of `callTool()`
+      if (next.method === 'tools/call') {
+        await this.assertToolAllowed(String((next.params as { name?: unknown } | undefined)?.name))
+      }
+      return await send(next)
+    }
+    return this.middleware.size ? await this.middleware.request(request, checked) : await checked(request)
+  }
+
+  /**
+   * Advertise client capabilities and register handlers for server requests.
+   * Call on a new SDK client before `client.connect(transport)`.
+   */
+  protected configureClient(client: Client): void {
+    // Every SDK client method, including the initialize handshake, goes through `request`
+    const send = client.request.bind(client)
+    client.request = ((request, resultSchema, options) =>
+      this.interceptRequest(request, next =>
+        this.guard(next, async () => await send(next as typeof request, resultSchema, options) as Result, options?.signal))) as Client['request']
+    this.rootsAdvertised = this.roots !== null
+    if (this.rootsAdvertised) {
+      client.registerCapabilities({ roots: { listChanged: true } })
+      client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: this.roots ?? [] }))
+    }
+    if (this.samplingHandler) {
+      client.registerCapabilities({ sampling: {} })
+      client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+        if (!this.samplingHandler) {
+          throw new Error('Sampling is not supported by this client')
+        }
+        return this.samplingHandler(request.params, { signal: extra.signal })
+      })
+    }
+    if (this.elicitationHandler) {
+      client.registerCapabilities({ elicitation: {} })
+      client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+        if (!this.elicitationHandler) {
+          throw new Error('Elicitation is not supported by this client')
+        }
+        const result = await this.elicitationHandler(request.params, { signal: extra.signal })
+        if (result.action !== 'accept') {
+          return { action: result.action }
+        }
+        return { action: 'accept', content: validateElicitationContent(request.params.requestedSchema, result.content) }
+      })
+    }
   }
 
   /** Establish the connection and create the SDK client. */
@@ -49,11 +408,97 @@ export abstract class BaseConnector {
     logger.debug('Disconnected from MCP implementation')
   }
 
+  /**
+   * Register a listener invoked when the connection closes without
+   * `disconnect()` being called (server process exited, socket dropped, ...).
+   *
+   * @returns A function that removes the listener.
+   */
+  onConnectionClosed(listener: () => void): () => void {
+    this.closeListeners.add(listener)
+    return () => this.closeListeners.delete(listener)
+  }
+
+  /** Notify `onConnectionClosed` listeners. */
+  protected notifyConnectionClosed(): void {
+    logger.debug('MCP connection closed unexpectedly')
+    for (const listener of [...this.closeListeners]) {
+      try {
+        listener()
+      }
+      catch (e) {
+        logger.error(`Error in connection close listener: ${e}`)
+      }
+    }
+  }
+
+  /**
+   * Register a listener for notifications sent by the server
+   * (`notifications/tools/list_changed`, `notifications/message`, ...).
+   *
+   * @returns A function that removes the listener.
+   */
+  onNotification(listener: (notification: Notification) => void): () => void {
+    this.notificationListeners.add(listener)
+    return () => this.notificationListeners.delete(listener)
+  }
+
+  /**
+   * Handle a server notification once middleware has seen it: refresh the tools cache on
+   * `notifications/tools/list_changed`, then notify `onNotification`
+   * listeners so they observe the refreshed cache.
+   */
+  protected async handleNotification(received: Notification): Promise<void> {
+    const notification = await this.middleware.notification(received)
+    if (!notification) {
+      return
+    }
+    if (notification.method === 'notifications/tools/list_changed' && this.toolsCache) {
+      try {
+        const tools = await this.refreshTools()
+        logger.debug(`Tool list changed, refreshed ${tools.length} tools`)
+      }
+      catch (e) {
+        logger.warn(`Failed to refresh tools after list_changed notification: ${e}`)
+      }
+    }
+    this.notifyNotification(notification)
+  }
+
+  /** Dispatch a server notification to `onNotification` listeners. */
+  protected notifyNotification(notification: Notification): void {
+    for (const listener of [...this.notificationListeners]) {
+      try {
+        listener(notification)
+      }
+      catch (e) {
+        logger.error(`Error in '${notification.method}' notification listener: ${e}`)
+      }
+    }
+  }
+
+  /**
+   * Forward the SDK client's transport close and server notifications to
+   * `onConnectionClosed` / `onNotification` listeners. Call after
+   * `client.connect(transport)` succeeds.
+   */
+  protected attachClientListeners(): void {
+    if (this.client) {
+      this.client.onclose = () => this.notifyConnectionClosed()
+      this.client.fallbackNotificationHandler = notification => this.handleNotification(notification)
+    }
+  }
+
   /** Check if the client is connected */
   get isClientConnected(): boolean {
     return this.client != null
   }
 
+  /** Name and version the server reported in the initialize handshake. */
+  get serverInfo(): Implementation | undefined {
+    return this.client?.getServerVersion()
+  }
+
   /**
    * Initialise the MCP session **after** `connect()` has succeeded.
    *
@@ -71,14 +516,64 @@ export abstract class BaseConnector {
     // Cache server capabilities for callers who need them.
     const capabilities = this.client.getServerCapabilities()
 
+    if (this.logLevel && capabilities?.logging) {
+      try {
+        await this.client.setLoggingLevel(this.logLevel, defaultRequestOptions)
+      }
+      catch (e) {
+        logger.warn(`Failed to set server log level to '${this.logLevel}': ${e}`)
+      }
+    }
+
     // Fetch and cache tools
-    const listToolsRes = await this.client.listTools(undefined, defaultRequestOptions)
-    this.toolsCache = (listToolsRes.tools ?? []) as Tool[]
+    await this.refreshTools(defaultRequestOptions)
 
-    logger.debug(`Fetched ${this.toolsCache.length} tools from server`)
+    logger.debug(`Fetched ${this.toolsCache!.length} tools from server`)
     return capabilities
   }
 
+  /**
+   * Re-fetch the server's tool list into the tools cache. Called automatically
+   * when the server sends `notifications/tools/list_changed`.
+   */
+  async refreshTools(options: RequestOptions = this.opts.defaultRequestOptions ?? {}): Promise<Tool[]> {
+    if (!this.client) {
+      throw new Error('MCP client is not connected')
+    }
+
+    const { tools } = await this.listAllTools(options)
+    this.toolsCache = tools
+    return this.toolsCache
+  }
+
+  /**
+   * List tools from the server with optional pagination
+   *
+   * @param cursor - Optional cursor for pagination
+   * @param options - Request options
+   * @returns Tool list with optional nextCursor for pagination
+   */
+  async listTools(cursor?: string, options?: RequestOptions): Promise<ListToolsResult> {
+    if (!this.client) {
+      throw new Error('MCP client is not connected')
+    }
+
+    logger.debug('Listing tools', cursor ? `with cursor: ${cursor}` : '')
+    return await this.client.listTools({ cursor }, options)
+  }
+
+  /**
+   * List all tools from the server, automatically handling pagination
+   *
+   * @param options - Request options
+   * @returns Complete list of all tools
+   */
+  async listAllTools(options?: RequestOptions): Promise<{ tools: Tool[] }> {
+    logger.debug('Listing all tools (with auto-pagination)')
+    const tools = await collectPages(cursor => this.listTools(cursor, options), page => page.tools ?? [])
+    return { tools }
+  }
+
   /** Lazily expose the cached tools list. */
   get tools(): Tool[] {
     if (!this.toolsCache) {
@@ -87,16 +582,88 @@ export abstract class BaseConnector {
     return this.toolsCache
   }
 
-  /** Call a tool on the server. */
-  async callTool(name: string, args: Record<string, any>, options?: RequestOptions): Promise<CallToolResult> {
+  /** Send a `ping` request; rejects if the server does not answer. */
+  async ping(options?: RequestOptions): Promise<void> {
     if (!this.client) {
       throw new Error('MCP client is not connected')
     }
 
-    logger.debug(`Calling tool '${name}' with args`, args)
-    const res = await this.client.callTool({ name, arguments: args }, undefined, options)
-    logger.debug(`Tool '${name}' returned`, res)
-    return res as CallToolResult
+    await this.client.ping(options)
+  }
+
+  /**
+   * Call a tool on the server.
+   *
+   * Pass `onProgress` to receive progress updates. Combine it with
+   * `resetTimeoutOnProgress` so long-running tools are not timed out while
+   * they report progress, and `maxTotalTimeout` to still bound the call.
+   * Aborting `signal` rejects the call and sends `notifications/cancelled`
+   * so the server can stop working on it. Results of read-only or idempotent
+   * tools are served from the tool cache, if one is set, unless `cache` is
+   * `false`. Transient failures are retried according to the retry policy,
+   * unless `retry` is `false` or the policy excludes the tool. The circuit
+   * breaker and rate limits apply to each attempt.
+   */
+  async callTool(name: string, args: Record<string, any>, options: CallToolOptions = {}): Promise<CallToolResult> {
+    const client = this.client
+    if (!client) {
+      throw new Error('MCP client is not connected')
+    }
+    await this.assertToolAllowed(name)
+
+    const { onProgress, cache: useCache = true, retry = true, ...requestOptions } = options
+    if (onProgress) {
+      requestOptions.onprogress = onProgress
+    }
+
+    const call = async () => {
+      logger.debug(`Calling tool '${name}' with args`, args)
+      const res = await client.callTool({ name, arguments: args }, undefined, requestOptions) as CallToolResult
+      logger.debug(`Tool '${name}' returned`, res)
+      return res
+    }
+    const retryable = retry && this.canRetryToolCall(name)
+    return await this.withToolCache(
+      name,
+      args,
+      useCache,
+      () => this.send(`Tool call '${name}'`, call, requestOptions.signal, retryable),
+    )
+  }
+
+  /** Whether the retry policy allows retrying calls of a tool. */
+  protected canRetryToolCall(name: string): boolean {
+    return this.retryPolicy?.canRetryTool(name, this.toolsCache?.find(t => t.name === name)) === true
+  }
+
+  /**
+   * Answer a tool call from the tool cache when the tool is cacheable, or run
+   * `call` and cache its result.
+   */
+  protected async withToolCache(
+    name: string,
+    args: Record<string, any>,
+    useCache: boolean,
+    call: () => Promise<CallToolResult>,
+  ): Promise<CallToolResult> {
+    const tool = useCache && this.toolCache ? this.toolsCache?.find(t => t.name === name) : undefined
+    if (!this.toolCache || !tool) {
+      return await call()
+    }
+    const { cache } = this.toolCache
+    const serverName = this.toolCache.serverName ?? JSON.stringify(this.publicIdentifier)
+    if (!cache.isCacheable(tool, serverName)) {
+      return await call()
+    }
+
+    const cached = await cache.get(serverName, name, args)
+    if (cached) {
+      logger.debug(`Tool '${name}' answered from cache`)
+      return cached
+    }
+    const res = await call()
+    await cache.set(serverName, name, args, res)
+    return res
   }
 
   /**
@@ -106,7 +673,7 @@ export abstract class BaseConnector {
    * @param options - Request options
    * @returns Resource list with optional nextCursor for pagination
    */
-  async listResources(cursor?: string, options?: RequestOptions) {
+  async listResources(cursor?: string, options?: RequestOptions): Promise<ListResourcesResult> {
     if (!this.client) {
       throw new Error('MCP client is not connected')
     }
@@ -121,48 +688,51 @@ export abstract class BaseConnector {
    * @param options - Request options
    * @returns Complete list of all resources
    */
-  async listAllResources(options?: RequestOptions) {
-    if (!this.client) {
-      throw new Error('MCP client is not connected')
-    }
-
+  async listAllResources(options?: RequestOptions): Promise<{ resources: Resource[] }> {
     logger.debug('Listing all resources (with auto-pagination)')
-    const allResources: any[] = []
-    let cursor: string | undefined = undefined
-
-    do {
-      const result = await this.client.listResources({ cursor }, options)
-      allResources.push(...(result.resources || []))
-      cursor = result.nextCursor
-    } while (cursor)
-
-    return { resources: allResources }
+    const resources = await collectPages(cursor => this.listResources(cursor, options), page => page.resources ?? [])
+    return { resources }
   }
 
   /**
-   * List resource templates from the server
-   * 
-   * @param options - Request options
-   * @returns List of available resource templates
+   * List resource templates from the server with optional pagination
+   *
+   * @param options - Request options, and the `cursor` of the page to list
+   * @returns Resource template list with optional nextCursor for pagination
    */
-  async listResourceTemplates(options?: RequestOptions) {
+  async listResourceTemplates(options: RequestOptions & { cursor?: string } = {}): Promise<ListResourceTemplatesResult> {
     if (!this.client) {
       throw new Error('MCP client is not connected')
     }
 
-    logger.debug('Listing resource templates')
-    return await this.client.listResourceTemplates(undefined, options)
+    const { cursor, ...requestOptions } = options
+    logger.debug('Listing resource templates', cursor ? `with cursor: ${cursor}` : '')
+    return await this.client.listResourceTemplates({ cursor }, requestOptions)
+  }
+
+  /**
+   * List all resource templates from the server, automatically handling pagination
+   *
+   * @param options - Request options
+   * @returns Complete list of all resource templates
+   */
+  async listAllResourceTemplates(options?: RequestOptions): Promise<{ resourceTemplates: ResourceTemplate[] }> {
+    logger.debug('Listing all resource templates (with auto-pagination)')
+    const resourceTemplates = await collectPages(
+      cursor => this.listResourceTemplates({ ...options, cursor }),
+      page => page.resourceTemplates ?? [],
+    )
+    return { resourceTemplates }
   }
 
   /** Read a resource by URI. */
-  async readResource(uri: string, options?: RequestOptions) {
+  async readResource(uri: string, options?: RequestOptions): Promise<ReadResourceResult> {
     if (!this.client) {
       throw new Error('MCP client is not connected')
     }
 
     logger.debug(`Reading resource ${uri}`)
-    const res = await this.client.readResource({ uri }, options)
-    return { content: res.content, mimeType: res.mimeType }
+    return await this.client.readResource({ uri }, options)
   }
 
   /**
@@ -195,13 +765,32 @@ export abstract class BaseConnector {
     return await this.client.unsubscribeResource({ uri }, options)
   }
 
-  async listPrompts() {
+  /**
+   * List prompts from the server with optional pagination
+   *
+   * @param cursor - Optional cursor for pagination
+   * @param options - Request options
+   * @returns Prompt list with optional nextCursor for pagination
+   */
+  async listPrompts(cursor?: string, options?: RequestOptions): Promise<ListPromptsResult> {
     if (!this.client) {
       throw new Error('MCP client is not connected')
     }
 
-    logger.debug('Listing prompt')
-    return await this.client.listPrompts()
+    logger.debug('Listing prompts', cursor ? `with cursor: ${cursor}` : '')
+    return await this.client.listPrompts({ cursor }, options)
+  }
+
+  /**
+   * List all prompts from the server, automatically handling pagination
+   *
+   * @param options - Request options
+   * @returns Complete list of all prompts
+   */
+  async listAllPrompts(options?: RequestOptions): Promise<{ prompts: Prompt[] }> {
+    logger.debug('Listing all prompts (with auto-pagination)')
+    const prompts = await collectPages(cursor => this.listPrompts(cursor, options), page => page.prompts ?? [])
+    return { prompts }
   }
 
   async getPrompt(name: string, args: Record<string, any>) {
@@ -213,14 +802,56 @@ export abstract class BaseConnector {
     return await this.client.getPrompt({ name, arguments: args })
   }
 
-  /** Send a raw request through the client. */
+  /**
+   * Ask the server to suggest values for a prompt argument or a resource
+   * template variable.
+   *
+   * @param ref - Prompt or resource template the argument belongs to
+   * @param argument - Argument name and the partial value to complete
+   * @param context - Values of arguments that were already filled in
+   * @param options - Request options
+   * @returns Suggestions; empty if the server does not support completions
+   */
+  async complete(
+    ref: CompletionReference,
+    argument: CompletionArgument,
+    context?: Record<string, string>,
+    options?: RequestOptions,
+  ): Promise<Completion> {
+    if (!this.client) {
+      throw new Error('MCP client is not connected')
+    }
+    if (!this.client.getServerCapabilities()?.completions) {
+      logger.debug('Server does not support completions')
+      return { values: [] }
+    }
+
+    logger.debug(`Completing argument '${argument.name}' for`, ref)
+    const result = await this.client.complete(
+      { ref, argument, ...(context && { context: { arguments: context } }) },
+      options,
+    )
+    return result.completion
+  }
+
+  /**
+   * Send a raw request through the client, subject to the retry policy,
+   * circuit breaker and rate limits. `tools/call` requests are only retried
+   * when `callTool` would retry them.
+   */
   async request(method: string, params: Record<string, any> | null = null, options?: RequestOptions) {
     if (!this.client) {
       throw new Error('MCP client is not connected')
     }
 
+    const client = this.client
     logger.debug(`Sending raw request '${method}' with params`, params)
-    return await this.client.request({ method, params: params ?? {} }, undefined as any, options)
+    return await this.send(
+      `Request '${method}'`,
+      () => client.request({ method, params: params ?? {} }, ResultSchema, options),
+      options?.signal,
+      method !== 'tools/call' || this.canRetryToolCall(String(params?.name)),
+    )
   }
 
   /**
@@ -230,6 +861,8 @@ export abstract class BaseConnector {
     const issues: string[] = []
 
     if (this.client) {
+      // An intentional close is not reported to onConnectionClosed listeners
+      this.client.onclose = undefined
       try {
         if (typeof this.client.close === 'function') {
           await this.client.close()
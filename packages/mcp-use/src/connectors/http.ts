@@ -2,6 +2,7 @@ import type { ConnectorInitOptions } from './base.js'
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
 import { StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
 import { logger } from '../logging.js'
+import { transientStatusFetch } from '../retry.js'
 import { SseConnectionManager } from '../task_managers/sse.js'
 import { StreamableHttpConnectionManager } from '../task_managers/streamable_http.js'
 import { BaseConnector } from './base.js'
@@ -130,6 +131,8 @@ export class HttpConnector extends BaseConnector {
           requestInit: {
             headers: this.headers,
           },
+          // With a retry policy, raise 429/5xx responses with their Retry-After
+          ...(this.retryPolicy && { fetch: transientStatusFetch() }),
           // Pass through timeout and other options
           reconnectionOptions: {
             maxReconnectionDelay: 30000,
@@ -144,6 +147,7 @@ export class HttpConnector extends BaseConnector {
       // Create and connect the client
       // This performs both initialize AND initialized notification
       this.client = new Client(this.clientInfo, this.opts.clientOptions)
+      this.configureClient(this.client)
       
       try {
         await this.client.connect(transport)
@@ -161,6 +165,7 @@ export class HttpConnector extends BaseConnector {
         }
         throw connectErr
       }
+      this.attachClientListeners()
 
       this.connected = true
       this.transportType = 'streamable-http'
@@ -182,13 +187,17 @@ export class HttpConnector extends BaseConnector {
           requestInit: {
             headers: this.headers,
           },
+          // With a retry policy, raise 429/5xx responses with their Retry-After
+          ...(this.retryPolicy && { fetch: transientStatusFetch() }),
         },
       )
       const transport = await this.connectionManager.start()
 
       // Create and connect the client
       this.client = new Client(this.clientInfo, this.opts.clientOptions)
+      this.configureClient(this.client)
       await this.client.connect(transport)
+      this.attachClientListeners()
 
       this.connected = true
       this.transportType = 'sse'
@@ -0,0 +1,104 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { ConnectorInitOptions } from './base.js'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { logger } from '../logging.js'
+import { BaseConnector } from './base.js'
+
+/**
+ * A server running in the same process: an `McpServer` from `mcp-use/server`,
+ * or an SDK `McpServer` or `Server`.
+ */
+export type InProcessServer
+  = { connectTransport: (transport: Transport) => Promise<void> }
+    | { connect: (transport: Transport) => Promise<void> }
+
+export interface InMemoryConnectorOptions extends ConnectorInitOptions {
+  /** Name reported in `publicIdentifier`. */
+  name?: string
+  clientInfo?: { name: string, version: string }
+}
+
+/**
+ * Connector holding each server's connection. The SDK server keeps a single
+ * transport, so a second connection would take over the first one's responses.
+ */
+const connectionOwners = new WeakMap<InProcessServer, InMemoryConnector>()
+
+/**
+ * Connector for a server in the same process, linked through the SDK's
+ * in-memory transport pair. Useful for tests and for embedding tools in an
+ * app without spawning a process or opening a port.
+ */
+export class InMemoryConnector extends BaseConnector {
+  protected readonly server: InProcessServer
+  private readonly name?: string
+  private readonly clientInfo: { name: string, version: string }
+
+  constructor(server: InProcessServer, opts: InMemoryConnectorOptions = {}) {
+    const { name, clientInfo, ...rest } = opts
+    super(rest)
+    this.server = server
+    this.name = name
+    this.clientInfo = clientInfo ?? { name: 'in-memory-connector', version: '1.0.0' }
+  }
+
+  /**
+   * Connect the server to one end of a linked transport pair and the client to
+   * the other. A server instance serves one connection at a time, so this
+   * rejects while another connector is connected to the same server.
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      logger.debug('Already connected to MCP implementation')
+      return
+    }
+    const owner = connectionOwners.get(this.server)
+    if (owner && owner !== this) {
+      throw new Error('In-process MCP server is already connected to another client; create a server instance per client or disconnect the other one first')
+    }
+    connectionOwners.set(this.server, this)
+
+    logger.debug('Connecting to in-process MCP implementation')
+    try {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      // The mcp-use server proxies Express, whose `connect` registers a route
+      if ('connectTransport' in this.server) {
+        await this.server.connectTransport(serverTransport)
+      }
+      else {
+        await this.server.connect(serverTransport)
+      }
+
+      this.client = new Client(this.clientInfo, this.opts.clientOptions)
+      this.configureClient(this.client)
+      await this.client.connect(clientTransport)
+      this.attachClientListeners()
+      this.connected = true
+      logger.debug('Successfully connected to in-process MCP implementation')
+    }
+    catch (err) {
+      logger.error(`Failed to connect to in-process MCP implementation: ${err}`)
+      await this.cleanupResources()
+      throw err
+    }
+  }
+
+  protected async cleanupResources(): Promise<void> {
+    try {
+      await super.cleanupResources()
+    }
+    finally {
+      if (connectionOwners.get(this.server) === this) {
+        connectionOwners.delete(this.server)
+      }
+    }
+  }
+
+  get publicIdentifier(): Record<string, string> {
+    return {
+      type: 'in-process',
+      ...(this.name !== undefined && { name: this.name }),
+    }
+  }
+}
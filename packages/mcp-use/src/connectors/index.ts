@@ -1,4 +1,6 @@
 export { BaseConnector } from './base.js'
 export { HttpConnector } from './http.js'
+export { InMemoryConnector } from './in_memory.js'
+export { ReplayConnector } from './replay.js'
 export { StdioConnector } from './stdio.js'
 export { WebSocketConnector } from './websocket.js'
@@ -0,0 +1,157 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { JSONRPCMessage, Request } from '@modelcontextprotocol/sdk/types.js'
+import type { Cassette, CassetteNotification, CassetteRequest } from '../cassette.js'
+import type { ConnectorInitOptions } from './base.js'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js'
+import { loadCassette } from '../cassette.js'
+import { logger } from '../logging.js'
+import { canonicalizeArguments } from '../tool_cache.js'
+import { BaseConnector } from './base.js'
+
+export interface ReplayConnectorOptions extends ConnectorInitOptions {
+  /** Only replay traffic recorded for this server, for cassettes recorded with `MCPClient.use`. */
+  serverName?: string
+  clientInfo?: { name: string, version: string }
+}
+
+interface Recording {
+  request: CassetteRequest
+  /** Notifications recorded after the request, up to the next request. */
+  notifications: CassetteNotification[]
+}
+
+/**
+ * Key identifying equivalent requests. `_meta` (e.g. progress tokens) differs
+ * between runs, and `initialize` params only describe the client.
+ */
+function requestKey(method: string, params: Request['params']): string {
+  if (method === 'initialize') {
+    return method
+  }
+  const { _meta, ...rest } = params ?? {}
+  return `${method} ${canonicalizeArguments(rest)}`
+}
+
+/**
+ * Transport that answers requests from a cassette. Requests recorded several
+ * times are answered in recorded order; once those answers are used up the
+ * last one is repeated.
+ */
+class ReplayTransport implements Transport {
+  onclose?: () => void
+  onerror?: (error: Error) => void
+  onmessage?: (message: JSONRPCMessage) => void
+  private readonly recordings = new Map<string, Recording[]>()
+  private readonly served = new Map<string, number>()
+  private readonly initialNotifications: CassetteNotification[] = []
+
+  constructor(cassette: Cassette, serverName?: string) {
+    let current: Recording | null = null
+    for (const entry of cassette.entries) {
+      if (serverName !== undefined && entry.serverName !== serverName) {
+        continue
+      }
+      if (entry.type === 'notification') {
+        (current?.notifications ?? this.initialNotifications).push(entry)
+        continue
+      }
+      if (!entry.result && !entry.error) {
+        // The recording ended before the server answered
+        continue
+      }
+      current = { request: entry, notifications: [] }
+      const key = requestKey(entry.method, entry.params)
+      this.recordings.set(key, [...(this.recordings.get(key) ?? []), current])
+    }
+  }
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    // Notifications and responses from the client need no answer
+    if (!('method' in message) || !('id' in message)) {
+      return
+    }
+    const key = requestKey(message.method, message.params)
+    const recordings = this.recordings.get(key)
+    await Promise.resolve()
+    if (!recordings) {
+      logger.warn(`No recorded response for '${message.method}'`)
+      this.onmessage?.({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: ErrorCode.InvalidRequest, message: `No recorded response for '${message.method}' with params ${JSON.stringify(message.params ?? {})}` },
+      })
+      return
+    }
+
+    const index = this.served.get(key) ?? 0
+    this.served.set(key, index + 1)
+    const { request, notifications } = recordings[Math.min(index, recordings.length - 1)]
+    this.onmessage?.(request.error
+      ? { jsonrpc: '2.0', id: message.id, error: request.error }
+      : { jsonrpc: '2.0', id: message.id, result: request.result! })
+    for (const notification of message.method === 'initialize' ? [...this.initialNotifications, ...notifications] : notifications) {
+      this.onmessage?.({ jsonrpc: '2.0', method: notification.method, params: notification.params })
+    }
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.()
+  }
+}
+
+/**
+ * Connector that serves recorded traffic from a cassette instead of talking
+ * to a real server, so tests run without live servers. Record cassettes with
+ * `CassetteRecorder`. Cassettes hold no server-initiated requests or
+ * progress notifications, so sampling, elicitation and progress handlers
+ * are never called during replay.
+ */
+export class ReplayConnector extends BaseConnector {
+  private readonly cassette: Cassette | string
+  private readonly serverName?: string
+  private readonly clientInfo: { name: string, version: string }
+
+  /**
+   * @param cassette A cassette, or the path of a cassette file.
+   */
+  constructor(cassette: Cassette | string, opts: ReplayConnectorOptions = {}) {
+    const { serverName, clientInfo, ...rest } = opts
+    super(rest)
+    this.cassette = cassette
+    this.serverName = serverName
+    this.clientInfo = clientInfo ?? { name: 'replay-connector', version: '1.0.0' }
+  }
+
+  /** Load the cassette and replay the initialize handshake. */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      logger.debug('Already connected to MCP implementation')
+      return
+    }
+
+    const cassette = typeof this.cassette === 'string' ? loadCassette(this.cassette) : this.cassette
+    try {
+      this.client = new Client(this.clientInfo, this.opts.clientOptions)
+      this.configureClient(this.client)
+      await this.client.connect(new ReplayTransport(cassette, this.serverName))
+      this.attachClientListeners()
+      this.connected = true
+    }
+    catch (err) {
+      logger.error(`Failed to replay MCP connection: ${err}`)
+      await this.cleanupResources()
+      throw err
+    }
+  }
+
+  get publicIdentifier(): Record<string, string> {
+    return {
+      type: 'replay',
+      cassette: typeof this.cassette === 'string' ? this.cassette : 'inline',
+      ...(this.serverName !== undefined && { server: this.serverName }),
+    }
+  }
+}
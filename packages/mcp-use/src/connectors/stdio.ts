@@ -80,7 +80,9 @@ export class StdioConnector extends BaseConnector {
 
       // 3. Create & connect the MCP client
       this.client = new Client(this.clientInfo, this.opts.clientOptions)
+      this.configureClient(this.client)
       await this.client.connect(transport)
+      this.attachClientListeners()
 
       this.connected = true
       logger.debug(`Successfully connected to MCP implementation: ${this.command}`)
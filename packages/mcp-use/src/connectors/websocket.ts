@@ -1,7 +1,14 @@
 import type {
   CallToolResult,
+  ListToolsResult,
+  ReadResourceResult,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js'
+import type { CircuitBreakerOptions } from '../circuit_breaker.js'
+import type { RateLimitOptions } from '../rate_limiter.js'
+import type { RetryOptions } from '../retry.js'
+import type { ToolFilterOptions } from '../tool_filter.js'
+import type { CallToolOptions } from './base.js'
 import { v4 as uuidv4 } from 'uuid'
 import { logger } from '../logging.js'
 import { WebSocketConnectionManager } from '../task_managers/websocket.js'
@@ -11,6 +18,10 @@ import { BaseConnector } from './base.js'
 export interface WebSocketConnectorOptions {
   authToken?: string
   headers?: Record<string, string>
+  retry?: RetryOptions
+  circuitBreaker?: CircuitBreakerOptions
+  rateLimit?: RateLimitOptions
+  toolFilter?: ToolFilterOptions
 }
 
 export class WebSocketConnector extends BaseConnector {
@@ -23,10 +34,12 @@ export class WebSocketConnector extends BaseConnector {
   private pending: Map<string, { resolve: (v: any) => void, reject: (e: any) => void }>
     = new Map()
 
+  private disconnecting = false
+
   protected toolsCache: Tool[] | null = null
 
   constructor(url: string, opts: WebSocketConnectorOptions = {}) {
-    super()
+    super({ retry: opts.retry, circuitBreaker: opts.circuitBreaker, rateLimit: opts.rateLimit, toolFilter: opts.toolFilter })
     this.url = url
     this.headers = { ...(opts.headers ?? {}) }
     if (opts.authToken)
@@ -60,11 +73,25 @@ export class WebSocketConnector extends BaseConnector {
       return
     }
     logger.debug('Disconnecting …')
-    await this.cleanupResources()
+    this.disconnecting = true
+    try {
+      await this.cleanupResources()
+    }
+    finally {
+      this.disconnecting = false
+    }
     this.connected = false
   }
 
-  private sendRequest<T = any>(method: string, params: Record<string, any> | null = null): Promise<T> {
+  private async sendRequest<T = any>(method: string, params: Record<string, any> | null = null): Promise<T> {
+    const result = await this.interceptRequest(
+      { method, params: params ?? {} },
+      request => this.guard(request, () => this.sendMessage(request.method, request.params ?? null)),
+    )
+    return result as T
+  }
+
+  private sendMessage<T = any>(method: string, params: Record<string, any> | null): Promise<T> {
     if (!this.ws)
       throw new Error('WebSocket is not connected')
     const id = uuidv4()
@@ -104,6 +131,9 @@ export class WebSocketConnector extends BaseConnector {
         else if ('error' in data)
           reject(data.error)
       }
+      else if (!id && typeof data.method === 'string') {
+        void this.handleNotification({ method: data.method, params: data.params })
+      }
       else {
         logger.debug('Received unsolicited message', data)
       }
@@ -124,6 +154,9 @@ export class WebSocketConnector extends BaseConnector {
           socket.off('message', onMessage)
         }
         this.rejectAll(new Error('WebSocket closed'))
+        if (!this.disconnecting) {
+          this.notifyConnectionClosed()
+        }
         resolve()
       }
       if (socket.addEventListener) {
@@ -142,19 +175,36 @@ export class WebSocketConnector extends BaseConnector {
   async initialize(): Promise<Record<string, any>> {
     logger.debug('Initializing MCP session over WebSocket')
     const result = await this.sendRequest<Record<string, any>>('initialize')
-    const toolsList = await this.listTools()
-    this.toolsCache = toolsList.map(t => t as Tool)
-    logger.debug(`Initialized with ${this.toolsCache.length} tools`)
+    const toolsList = await this.refreshTools()
+    logger.debug(`Initialized with ${toolsList.length} tools`)
     return result
   }
 
-  async listTools(): Promise<Tool[]> {
-    const res = await this.sendRequest<{ tools: Tool[] }>('tools/list')
-    return res.tools ?? []
+  async refreshTools(): Promise<Tool[]> {
+    const { tools } = await this.listAllTools()
+    this.toolsCache = tools
+    return this.toolsCache
+  }
+
+  async listTools(cursor?: string): Promise<ListToolsResult> {
+    const res = await this.sendRequest<ListToolsResult>('tools/list', cursor ? { cursor } : null)
+    return { ...res, tools: res.tools ?? [] }
+  }
+
+  async ping(): Promise<void> {
+    await this.sendRequest('ping')
   }
 
-  async callTool(name: string, args: Record<string, any>): Promise<CallToolResult> {
-    return await this.sendRequest('tools/call', { name, arguments: args })
+  async callTool(name: string, args: Record<string, any>, options: CallToolOptions = {}): Promise<CallToolResult> {
+    await this.assertToolAllowed(name)
+    const call = async () => await this.sendRequest<CallToolResult>('tools/call', { name, arguments: args })
+    const retryable = (options.retry ?? true) && this.canRetryToolCall(name)
+    return await this.withToolCache(
+      name,
+      args,
+      options.cache ?? true,
+      () => this.send(`Tool call '${name}'`, call, options.signal, retryable),
+    )
   }
 
   async listResources(): Promise<any> {
@@ -162,13 +212,17 @@ export class WebSocketConnector extends BaseConnector {
     return { resources: Array.isArray(resources) ? resources : [] }
   }
 
-  async readResource(uri: string): Promise<{ content: ArrayBuffer, mimeType: string }> {
-    const res = await this.sendRequest('resources/read', { uri })
-    return { content: res.content, mimeType: res.mimeType }
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    return await this.sendRequest<ReadResourceResult>('resources/read', { uri })
   }
 
   async request(method: string, params: Record<string, any> | null = null): Promise<any> {
-    return await this.sendRequest(method, params)
+    return await this.send(
+      `Request '${method}'`,
+      () => this.sendRequest(method, params),
+      undefined,
+      method !== 'tools/call' || this.canRetryToolCall(String(params?.name)),
+    )
   }
 
   get tools(): Tool[] {
@@ -0,0 +1,91 @@
+import type { ElicitRequest, ElicitResult, PrimitiveSchemaDefinition } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+export type ElicitationRequest = ElicitRequest['params']
+
+export interface ElicitationContext {
+  /** Name of the server that issued the request, when created through `MCPClient`. */
+  serverName?: string
+  /** Aborted when the server cancels the request. */
+  signal?: AbortSignal
+}
+
+/**
+ * Answers `elicitation/create` requests from MCP servers, usually by asking
+ * the user. Return `accept` with `content` matching `request.requestedSchema`,
+ * or `decline` / `cancel`. Accepted content is validated before it is sent.
+ */
+export type ElicitationHandler = (request: ElicitationRequest, context: ElicitationContext) => Promise<ElicitResult>
+
+function fieldSchema(definition: PrimitiveSchemaDefinition): z.ZodTypeAny {
+  if (definition.type === 'boolean') {
+    return z.boolean()
+  }
+  if (definition.type === 'number' || definition.type === 'integer') {
+    let schema = z.number()
+    if (definition.type === 'integer') {
+      schema = schema.int()
+    }
+    if (typeof definition.minimum === 'number') {
+      schema = schema.min(definition.minimum)
+    }
+    if (typeof definition.maximum === 'number') {
+      schema = schema.max(definition.maximum)
+    }
+    return schema
+  }
+  if ('enum' in definition && Array.isArray(definition.enum) && definition.enum.length > 0) {
+    return z.enum(definition.enum as [string, ...string[]])
+  }
+
+  let schema = z.string()
+  if ('minLength' in definition && typeof definition.minLength === 'number') {
+    schema = schema.min(definition.minLength)
+  }
+  if ('maxLength' in definition && typeof definition.maxLength === 'number') {
+    schema = schema.max(definition.maxLength)
+  }
+  const format = 'format' in definition ? definition.format : undefined
+  if (format === 'email') {
+    schema = schema.email()
+  }
+  else if (format === 'uri') {
+    schema = schema.url()
+  }
+  else if (format === 'date') {
+    schema = schema.date()
+  }
+  else if (format === 'date-time') {
+    schema = schema.datetime({ offset: true })
+  }
+  return schema
+}
+
+/**
+ * Validate accepted elicitation content against the schema the server
+ * requested.
+ *
+ * @returns The validated content.
+ * @throws An error listing every invalid field.
+ */
+export function validateElicitationContent(
+  requestedSchema: ElicitationRequest['requestedSchema'],
+  content: unknown,
+): Record<string, string | number | boolean> {
+  const required = new Set(requestedSchema.required ?? [])
+  const shape = Object.fromEntries(
+    Object.entries(requestedSchema.properties).map(([name, definition]) => {
+      const schema = fieldSchema(definition)
+      return [name, required.has(name) ? schema : schema.optional()]
+    }),
+  )
+
+  const result = z.object(shape).strict().safeParse(content ?? {})
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(content)'}: ${issue.message}`)
+      .join('\n')
+    throw new Error(`Elicitation response does not match the requested schema:\n${issues}`)
+  }
+  return result.data as Record<string, string | number | boolean>
+}
@@ -17,7 +17,13 @@ async function getNodeModules() {
   return { fs: null, path: null }
 }
 
-const { combine, timestamp, label, printf, colorize, splat } = format
+const { combine, timestamp, printf, colorize, splat } = format
+
+/** Set the label unless the message already has one, e.g. from a child logger. */
+const defaultLabel = format((info, opts) => {
+  info.label ??= (opts as { label?: string }).label
+  return info
+})
 
 export type LogLevel = 'error' | 'warn' | 'info' | 'http' | 'verbose' | 'debug' | 'silly'
 
@@ -184,7 +190,7 @@ export class Logger {
         format: combine(
           colorize(),
           splat(),
-          label({ label: name }),
+          defaultLabel({ label: name }),
           timestamp({ format: 'HH:mm:ss' }),
           this.getFormatter(),
         ),
@@ -253,7 +259,7 @@ export class Logger {
         ;(logger as WinstonLogger).format = combine(
           colorize(),
           splat(),
-          label({ label: DEFAULT_LOGGER_NAME }),
+          defaultLabel({ label: DEFAULT_LOGGER_NAME }),
           timestamp({ format: 'HH:mm:ss' }),
           this.getFormatter(),
         )
@@ -261,6 +267,17 @@ export class Logger {
     })
   }
 
+  /**
+   * Get a logger that writes through the root logger's transports under its
+   * own label.
+   */
+  public static child(label: string): WinstonLogger | SimpleConsoleLogger {
+    if (!isNodeJSEnvironment()) {
+      return this.get(label)
+    }
+    return (this.get() as WinstonLogger).child({ label })
+  }
+
   public static setDebug(enabled: boolean | 0 | 1 | 2): void {
     let level: LogLevel
     if (enabled === 2 || enabled === true)
@@ -11,6 +11,17 @@ import { ConnectMCPServerTool } from './tools/connect_mcp_server.js'
 import { ListMCPServersTool } from './tools/list_mcp_servers.js'
 import { ReleaseMCPServerConnectionTool } from './tools/release_mcp_server_connection.js'
 
+export interface ServerState {
+  serverName: string
+  /** Whether the client has an active session for the server. */
+  connected: boolean
+  /** Whether the server's tools have been loaded. */
+  initialized: boolean
+  toolCount: number
+  /** Whether this is the server the agent is currently using. */
+  active: boolean
+}
+
 export class ServerManager {
   public readonly initializedServers: Record<string, boolean> = {}
   public readonly serverTools: Record<string, StructuredToolInterface[]> = {}
@@ -19,6 +30,7 @@ export class ServerManager {
   public readonly adapter: LangChainAdapter
   public activeServer: string | null = null
   private overrideManagementTools?: StructuredToolInterface[]
+  private unsubscribeToolsChanged: (() => void) | null = null
 
   constructor(
     client: MCPClient,
@@ -37,21 +49,34 @@ export class ServerManager {
     )
   }
 
-  public logState(context: string): void {
-    const allServerNames = this.client.getServerNames()
+  /**
+   * Snapshot of every configured server, as shown by `logState`.
+   */
+  public getState(): ServerState[] {
     const activeSessionNames = Object.keys(this.client.getAllActiveSessions())
+    return this.client.getServerNames().map(name => ({
+      serverName: name,
+      connected: activeSessionNames.includes(name),
+      initialized: Boolean(this.initializedServers[name]),
+      toolCount: this.serverTools[name]?.length ?? 0,
+      active: this.activeServer === name,
+    }))
+  }
+
+  public logState(context: string): void {
+    const state = this.getState()
 
-    if (allServerNames.length === 0) {
+    if (state.length === 0) {
       logger.info('Server Manager State: No servers configured.')
       return
     }
 
-    const tableData = allServerNames.map(name => ({
-      'Server Name': name,
-      'Connected': activeSessionNames.includes(name) ? '✅' : '❌',
-      'Initialized': this.initializedServers[name] ? '✅' : '❌',
-      'Tool Count': this.serverTools[name]?.length ?? 0,
-      'Active': this.activeServer === name ? '✅' : '❌',
+    const tableData = state.map(server => ({
+      'Server Name': server.serverName,
+      'Connected': server.connected ? '✅' : '❌',
+      'Initialized': server.initialized ? '✅' : '❌',
+      'Tool Count': server.toolCount,
+      'Active': server.active ? '✅' : '❌',
     }))
 
     logger.info(`Server Manager State: [${context}]`)
@@ -63,6 +88,29 @@ export class ServerManager {
     if (serverNames.length === 0) {
       logger.warn('No MCP servers defined in client configuration')
     }
+
+    this.unsubscribeToolsChanged?.()
+    this.unsubscribeToolsChanged = this.client.on('toolsChanged', ({ serverName }) => {
+      void this.refreshServerTools(serverName)
+    })
+  }
+
+  /**
+   * Reload the tools of a server whose tools were already loaded, so the
+   * agent picks up the new list before its next step.
+   */
+  private async refreshServerTools(serverName: string): Promise<void> {
+    const session = this.client.getSession(serverName)
+    if (!session || !this.serverTools[serverName]) {
+      return
+    }
+    try {
+      this.serverTools[serverName] = await this.adapter.createToolsFromConnectors({ [serverName]: session.connector })
+      logger.debug(`Reloaded ${this.serverTools[serverName].length} tools for server '${serverName}' after list change`)
+    }
+    catch (e) {
+      logger.error(`Failed to reload tools for server '${serverName}': ${e}`)
+    }
   }
 
   async prefetchServerTools(): Promise<void> {
@@ -88,7 +136,7 @@ export class ServerManager {
           let tools: StructuredToolInterface[] = []
 
           try {
-            tools = await this.adapter.createToolsFromConnectors([connector])
+            tools = await this.adapter.createToolsFromConnectors({ [serverName]: connector })
           }
           catch (toolFetchError) {
             logger.error(`Failed to create tools from connector for server '${serverName}': ${toolFetchError}`)
@@ -38,7 +38,7 @@ export class AddMCPServerFromConfigTool extends StructuredTool {
       const session = await this.manager.client.createSession(serverName)
       const connector = session.connector
       const tools: StructuredToolInterface[]
-          = await this.manager.adapter.createToolsFromConnectors([connector])
+          = await this.manager.adapter.createToolsFromConnectors({ [serverName]: connector })
 
       this.manager.serverTools[serverName] = tools
       this.manager.initializedServers[serverName] = true
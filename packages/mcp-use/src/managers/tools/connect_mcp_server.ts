@@ -41,7 +41,7 @@ export class ConnectMCPServerTool extends MCPServerTool<typeof ConnectMCPServerS
       this.manager.activeServer = serverName
       if (this.manager.serverTools[serverName]) {
         const connector: BaseConnector = session.connector
-        const tools: StructuredToolInterface[] = await this.manager.adapter.createToolsFromConnectors([connector])
+        const tools: StructuredToolInterface[] = await this.manager.adapter.createToolsFromConnectors({ [serverName]: connector })
         this.manager.serverTools[serverName] = tools
         this.manager.initializedServers[serverName] = true
       }
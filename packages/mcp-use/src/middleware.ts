@@ -0,0 +1,99 @@
+import type { Notification, Request, Result } from '@modelcontextprotocol/sdk/types.js'
+import { logger } from './logging.js'
+
+export interface MiddlewareContext {
+  /** Name of the server in the client config, when registered through `MCPClient.use`. */
+  serverName?: string
+}
+
+/** Sends a request on to the next middleware, and finally to the server. */
+export type NextRequestHandler = (request: Request) => Promise<Result>
+
+/**
+ * Intercepts traffic between a connector and its server. Register it with
+ * `MCPClient.use` for every server or `BaseConnector.use` for one connector.
+ */
+export interface MCPMiddleware {
+  /**
+   * Called for every outgoing JSON-RPC request. Call `next` with the original
+   * or a rewritten request to send it on, and return its result or a rewritten
+   * one. Throw to reject the request without sending it.
+   */
+  request?: (request: Request, next: NextRequestHandler, context: MiddlewareContext) => Promise<Result>
+  /**
+   * Called for every incoming server notification except
+   * `notifications/progress` and `notifications/cancelled`, which the SDK
+   * handles itself. Return the original or a rewritten notification, or
+   * `null` to drop it. Dropping a `list_changed` notification also skips the
+   * tool list refresh it would trigger.
+   */
+  notification?: (notification: Notification, context: MiddlewareContext) => Notification | null | Promise<Notification | null>
+}
+
+/**
+ * The middleware registered on a connector, in registration order. The first
+ * registered middleware sees requests first and results last.
+ */
+export class MiddlewareChain {
+  private readonly entries: Array<{ middleware: MCPMiddleware, context: MiddlewareContext }> = []
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Add a middleware.
+   *
+   * @returns A function that removes it.
+   */
+  add(middleware: MCPMiddleware, context: MiddlewareContext = {}): () => void {
+    const entry = { middleware, context }
+    this.entries.push(entry)
+    return () => {
+      const index = this.entries.indexOf(entry)
+      if (index !== -1) {
+        this.entries.splice(index, 1)
+      }
+    }
+  }
+
+  /** Pass `request` through every request middleware before handing it to `send`. */
+  async request(request: Request, send: NextRequestHandler): Promise<Result> {
+    const entries = this.entries.filter(entry => entry.middleware.request)
+    const dispatch = async (index: number, current: Request): Promise<Result> => {
+      if (index === entries.length) {
+        return await send(current)
+      }
+      const { middleware, context } = entries[index]
+      return await middleware.request!(current, next => dispatch(index + 1, next), context)
+    }
+    return await dispatch(0, request)
+  }
+
+  /**
+   * Pass `notification` through every notification middleware.
+   *
+   * @returns The resulting notification, or `null` if a middleware dropped it
+   *          or failed.
+   */
+  async notification(notification: Notification): Promise<Notification | null> {
+    let current: Notification | null = notification
+    for (const { middleware, context } of [...this.entries]) {
+      if (!current) {
+        break
+      }
+      if (!middleware.notification) {
+        continue
+      }
+      const { method } = current
+      try {
+        current = await middleware.notification(current, context)
+      }
+      catch (e) {
+        logger.error(`Middleware failed on '${method}' notification, dropping it: ${e}`)
+        return null
+      }
+    }
+    return current
+  }
+}
@@ -0,0 +1,94 @@
+import { sleep } from './utils/timeout.js'
+
+export interface RateLimitOptions {
+  /** Maximum number of requests in flight at once. Unlimited by default. */
+  maxConcurrent?: number
+  /** Maximum number of requests started per second. Unlimited by default. */
+  requestsPerSecond?: number
+}
+
+/**
+ * Limits how many requests run at once and how often they start. Requests
+ * over the limits wait their turn in order instead of failing.
+ */
+export class RateLimiter {
+  readonly maxConcurrent: number
+  readonly requestsPerSecond: number
+  private active = 0
+  private readonly queue: Array<() => void> = []
+  private nextStartAt = 0
+
+  constructor(options: RateLimitOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? Infinity
+    this.requestsPerSecond = options.requestsPerSecond ?? Infinity
+  }
+
+  /** Number of requests currently running. */
+  get inFlight(): number {
+    return this.active
+  }
+
+  /** Number of requests waiting for a free slot. */
+  get waiting(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Run `fn` once a slot is free and the rate allows it. Aborting `signal`
+   * while waiting rejects without running `fn`.
+   */
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal)
+    try {
+      await this.throttle(signal)
+      return await fn()
+    }
+    finally {
+      this.release()
+    }
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted()
+    if (this.active < this.maxConcurrent) {
+      this.active++
+      return
+    }
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(grant), 1)
+        reject(signal!.reason)
+      }
+      // The releasing request hands its slot over, so `active` is unchanged
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      this.queue.push(grant)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private release(): void {
+    const next = this.queue.shift()
+    if (next) {
+      next()
+    }
+    else {
+      this.active--
+    }
+  }
+
+  /** Space request starts at least `1 / requestsPerSecond` seconds apart. */
+  private async throttle(signal?: AbortSignal): Promise<void> {
+    if (!Number.isFinite(this.requestsPerSecond)) {
+      return
+    }
+    const now = Date.now()
+    const startAt = Math.max(now, this.nextStartAt)
+    this.nextStartAt = startAt + 1000 / this.requestsPerSecond
+    if (startAt > now) {
+      await sleep(startAt - now, signal)
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { logger } from './logging.js'
+import { sleep } from './utils/timeout.js'
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first one. Defaults to 3. */
+  maxAttempts?: number
+  /** Delay before the first retry, in milliseconds. Defaults to 250. */
+  initialDelayMs?: number
+  /**
+   * Upper bound for a single delay, in milliseconds. A `Retry-After` longer
+   * than this ends the retries instead of waiting. Defaults to 10000.
+   */
+  maxDelayMs?: number
+  /** Factor applied to the delay after each attempt. Defaults to 2. */
+  backoffMultiplier?: number
+  /** Randomize each delay between half and all of its value. Defaults to `true`. */
+  jitter?: boolean
+  /** Tools that must never be retried, e.g. because they are not idempotent. */
+  excludeTools?: string[]
+  /**
+   * Tools to retry although the server does not annotate them `readOnlyHint`
+   * or `idempotentHint: true`, because they are known to be safe to repeat.
+   */
+  retryTools?: string[]
+  /** Decide whether an error is transient. Defaults to `isRetryableError`. */
+  isRetryable?: (error: unknown) => boolean
+}
+
+/** HTTP statuses that indicate a server is temporarily unable to answer. */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504])
+
+/** Error codes of dropped or refused connections (Node and undici). */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+/**
+ * An HTTP response with a transient error status, raised by the fetch
+ * returned from `transientStatusFetch`. It is a `StreamableHTTPError`, so
+ * code that checks the SDK's error and its `code` keeps working.
+ */
+export class TransientHttpError extends StreamableHTTPError {
+  constructor(
+    readonly status: number,
+    message: string,
+    /** Delay requested by the server's `Retry-After` header, if any. */
+    readonly retryAfterMs?: number,
+  ) {
+    super(status, message)
+    this.name = 'TransientHttpError'
+  }
+}
+
+/**
+ * Parse a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @returns The delay in milliseconds, or `undefined` if the header is missing or invalid.
+ */
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | undefined {
+  if (!header) {
+    return undefined
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return Number(header) * 1000
+  }
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Wrap `fetch` so that POST responses with a transient status (429, 502, 503,
+ * 504) are raised as `TransientHttpError`, carrying the `Retry-After` delay.
+ */
+export function transientStatusFetch(fetchFn: FetchLike = fetch): FetchLike {
+  return async (url, init) => {
+    const response = await fetchFn(url, init)
+    if (init?.method === 'POST' && RETRYABLE_STATUSES.has(response.status)) {
+      const text = await response.text().catch(() => null)
+      throw new TransientHttpError(
+        response.status,
+        `Error POSTing to endpoint (HTTP ${response.status}): ${text}`,
+        parseRetryAfter(response.headers.get('retry-after')),
+      )
+    }
+    return response
+  }
+}
+
+/**
+ * Whether an error is likely transient: a dropped or refused connection, a
+ * 429/502/503/504 response, or a JSON-RPC internal error.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TransientHttpError) {
+    return true
+  }
+  if (error instanceof McpError) {
+    return error.code === ErrorCode.InternalError
+  }
+  if (!(error instanceof Error)) {
+    return false
+  }
+  const code = (error as { code?: unknown }).code ?? (error.cause as { code?: unknown } | undefined)?.code
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+    return true
+  }
+  return typeof code === 'number' && RETRYABLE_STATUSES.has(code)
+}
+
+/**
+ * Retries transient failures with exponential backoff. Each server connector
+ * can have its own policy.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number
+  readonly initialDelayMs: number
+  readonly maxDelayMs: number
+  readonly backoffMultiplier: number
+  readonly jitter: boolean
+  private readonly excludeTools: Set<string>
+  private readonly retryTools: Set<string>
+  private readonly isRetryable: (error: unknown) => boolean
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3)
+    this.initialDelayMs = options.initialDelayMs ?? 250
+    this.maxDelayMs = options.maxDelayMs ?? 10_000
+    this.backoffMultiplier = options.backoffMultiplier ?? 2
+    this.jitter = options.jitter ?? true
+    this.excludeTools = new Set(options.excludeTools)
+    this.retryTools = new Set(options.retryTools)
+    this.isRetryable = options.isRetryable ?? isRetryableError
+  }
+
+  /**
+   * Whether calls of a tool may be retried. A failed call may already have
+   * taken effect on the server, so only tools annotated `readOnlyHint` or
+   * `idempotentHint: true`, or listed in `retryTools`, are retried. Tools
+   * listed in `excludeTools` never are.
+   */
+  canRetryTool(name: string, tool?: Tool): boolean {
+    if (this.excludeTools.has(name)) {
+      return false
+    }
+    if (this.retryTools.has(name)) {
+      return true
+    }
+    return tool?.annotations?.readOnlyHint === true || tool?.annotations?.idempotentHint === true
+  }
+
+  /**
+   * Delay before retrying after the given failed attempt (1-based), or `null`
+   * if the error should not be retried.
+   */
+  delayFor(attempt: number, error: unknown): number | null {
+    if (attempt >= this.maxAttempts || !this.isRetryable(error)) {
+      return null
+    }
+    const retryAfterMs = error instanceof TransientHttpError ? error.retryAfterMs : undefined
+    if (retryAfterMs !== undefined && retryAfterMs > this.maxDelayMs) {
+      return null
+    }
+    let delay = Math.min(this.maxDelayMs, this.initialDelayMs * this.backoffMultiplier ** (attempt - 1))
+    if (this.jitter) {
+      delay = delay / 2 + Math.random() * delay / 2
+    }
+    return Math.max(delay, retryAfterMs ?? 0)
+  }
+
+  /**
+   * Run `fn` until it succeeds, fails with an error that is not retryable, or
+   * runs out of attempts. Aborting `signal` stops waiting and rethrows.
+   */
+  async run<T>(description: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn()
+      }
+      catch (e) {
+        const delay = signal?.aborted ? null : this.delayFor(attempt, e)
+        if (delay === null) {
+          throw e
+        }
+        logger.warn(`${description} failed (attempt ${attempt}/${this.maxAttempts}), retrying in ${Math.round(delay)}ms: ${e}`)
+        await sleep(delay, signal)
+      }
+    }
+  }
+}
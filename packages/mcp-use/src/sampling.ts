@@ -0,0 +1,161 @@
+import type { BaseLanguageModelInterface } from '@langchain/core/language_models/base'
+import type { BaseMessage, MessageContent } from '@langchain/core/messages'
+import type { CreateMessageRequest, CreateMessageResult, SamplingMessage } from '@modelcontextprotocol/sdk/types.js'
+import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages'
+import { logger } from './logging.js'
+import { getModelName } from './telemetry/index.js'
+
+export type SamplingRequest = CreateMessageRequest['params']
+
+export interface SamplingContext {
+  /** Name of the server that issued the request, when created through `MCPClient`. */
+  serverName?: string
+  /** Aborted when the server cancels the request. */
+  signal?: AbortSignal
+}
+
+/**
+ * Answers `sampling/createMessage` requests from MCP servers. Throwing
+ * rejects the request; the error message is returned to the server.
+ */
+export type SamplingHandler = (request: SamplingRequest, context: SamplingContext) => Promise<CreateMessageResult>
+
+export interface LangChainSamplingOptions {
+  /**
+   * Additional models, keyed by model name. A request's `modelPreferences.hints`
+   * are matched in order as substrings of these names; the first match is
+   * used, otherwise the default model.
+   */
+  models?: Record<string, BaseLanguageModelInterface>
+  /**
+   * Upper bound for `maxTokens`. Requests asking for more are clamped to this
+   * value. The request's limit and `temperature` are applied to models
+   * configured with `maxTokens` and `temperature` fields, such as `ChatOpenAI`
+   * and `ChatAnthropic`, by building a copy of the model with the values
+   * replaced; other models use their own settings.
+   */
+  maxTokens?: number
+  /**
+   * Called before each request is sent to the model. Return `false` to
+   * reject it, e.g. after asking the user for confirmation.
+   */
+  approve?: (request: SamplingRequest, context: SamplingContext) => boolean | Promise<boolean>
+}
+
+/**
+ * Create a `SamplingHandler` that answers server requests with a LangChain
+ * chat model. Only the `hints` of a request's `modelPreferences` select the
+ * model; its cost, speed and intelligence priorities are ignored.
+ *
+ * @param llm     Model used when no `modelPreferences` hint matches.
+ * @param options Model mapping, token limit and approval hook.
+ */
+export function createLangChainSamplingHandler(
+  llm: BaseLanguageModelInterface,
+  options: LangChainSamplingOptions = {},
+): SamplingHandler {
+  return async (request, context) => {
+    if (options.approve && !(await options.approve(request, context))) {
+      throw new Error('Sampling request was rejected by the client')
+    }
+
+    const [modelName, model] = selectModel(llm, options.models ?? {}, request)
+    const maxTokens = options.maxTokens !== undefined
+      ? Math.min(request.maxTokens, options.maxTokens)
+      : request.maxTokens
+
+    logger.debug(`Sampling ${request.messages.length} message(s) with ${modelName} (maxTokens: ${maxTokens})${context.serverName ? ` for server '${context.serverName}'` : ''}`)
+    const response = await withRequestSettings(model, { maxTokens, temperature: request.temperature }).invoke(toLangChainMessages(request), {
+      stop: request.stopSequences,
+      signal: context.signal,
+    })
+
+    const metadata = (response as BaseMessage).response_metadata ?? {}
+    const finishReason = metadata.finish_reason ?? metadata.stop_reason
+    return {
+      role: 'assistant',
+      content: { type: 'text', text: textOf((response as BaseMessage).content ?? response) },
+      model: modelName,
+      stopReason: finishReason === 'length' || finishReason === 'max_tokens'
+        ? 'maxTokens'
+        : finishReason === 'stop_sequence' ? 'stopSequence' : 'endTurn',
+    }
+  }
+}
+
+function selectModel(
+  llm: BaseLanguageModelInterface,
+  models: Record<string, BaseLanguageModelInterface>,
+  request: SamplingRequest,
+): [string, BaseLanguageModelInterface] {
+  for (const hint of request.modelPreferences?.hints ?? []) {
+    if (!hint.name) {
+      continue
+    }
+    const match = Object.keys(models).find(name => name.includes(hint.name!))
+    if (match) {
+      return [match, models[match]]
+    }
+  }
+  return [getModelName(llm), llm]
+}
+
+/**
+ * LangChain has no per-call token limit or temperature, and providers read
+ * them from the model instance (`ChatOpenAI` even from inner per-API
+ * instances). So when a request asks for different values than the model
+ * has, build a copy of the model from its constructor fields with those
+ * values replaced, leaving the shared instance untouched. Fields the model
+ * does not have are skipped.
+ */
+function withRequestSettings(
+  model: BaseLanguageModelInterface,
+  settings: { maxTokens: number, temperature?: number },
+): BaseLanguageModelInterface {
+  const fields = (model as { lc_kwargs?: Record<string, unknown> }).lc_kwargs
+  if (!fields) {
+    return model
+  }
+  const changed = Object.fromEntries(Object.entries(settings).filter(([key, value]) =>
+    value !== undefined && key in model && (model as unknown as Record<string, unknown>)[key] !== value))
+  if (Object.keys(changed).length === 0) {
+    return model
+  }
+  const Model = model.constructor as new (fields: Record<string, unknown>) => BaseLanguageModelInterface
+  return new Model({ ...fields, ...changed })
+}
+
+function toLangChainMessages(request: SamplingRequest): BaseMessage[] {
+  const messages: BaseMessage[] = []
+  if (request.systemPrompt) {
+    messages.push(new SystemMessage(request.systemPrompt))
+  }
+  for (const message of request.messages) {
+    const content = toLangChainContent(message)
+    messages.push(message.role === 'assistant' ? new AIMessage({ content }) : new HumanMessage({ content }))
+  }
+  return messages
+}
+
+function toLangChainContent(message: SamplingMessage): MessageContent {
+  const { content } = message
+  if (content.type === 'text') {
+    return content.text
+  }
+  if (content.type === 'image') {
+    return [{ type: 'image_url', image_url: { url: `data:${content.mimeType};base64,${content.data}` } }]
+  }
+  throw new Error(`Unsupported sampling content type '${content.type}'`)
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (typeof part === 'string' ? part : part?.type === 'text' ? part.text : ''))
+      .join('')
+  }
+  return String(content)
+}
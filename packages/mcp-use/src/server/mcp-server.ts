@@ -9,6 +9,7 @@ import type {
   InputDefinition,
   UIResourceContent,
 } from './types/index.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
 import { McpServer as OfficialMcpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
 import express, { type Express } from 'express'
@@ -621,6 +622,31 @@ export class McpServer {
     })
   }
 
+  /**
+   * Connect the MCP server to a transport directly, without going through Express
+   *
+   * Used to serve clients in the same process, e.g. over the SDK's linked
+   * in-memory transport pair. `MCPClient` does this for `{ inProcess: server }`
+   * configs, so this is rarely called directly. The server holds one such
+   * connection at a time and cannot take one while serving HTTP, since both
+   * would share the underlying MCP server's single transport.
+   *
+   * @param transport - The server side of the transport
+   * @returns Promise that resolves once the transport is started
+   *
+   * @example
+   * ```typescript
+   * const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+   * await server.connectTransport(serverTransport)
+   * ```
+   */
+  async connectTransport(transport: Transport): Promise<void> {
+    if (this.mcpMounted) {
+      throw new Error('Cannot connect a transport directly while the server is serving HTTP at /mcp')
+    }
+    await this.server.connect(transport)
+  }
+
   /**
    * Mount MCP Inspector UI at /inspector
    * 
@@ -1,20 +1,139 @@
-import type { BaseConnector } from './connectors/base.js'
+import type { CallToolResult, LoggingLevel, Notification, ReadResourceResult, Root } from '@modelcontextprotocol/sdk/types.js'
+import type { BaseConnector, CallToolOptions, Completion, CompletionArgument, CompletionReference } from './connectors/base.js'
+import { logger } from './logging.js'
+import { TypedEventEmitter } from './utils/event_emitter.js'
+import { withTimeout } from './utils/timeout.js'
 
-export class MCPSession {
+/**
+ * Lifecycle state of an `MCPSession`.
+ *
+ * - `idle`: created, never connected
+ * - `connecting`: `connect()` in progress
+ * - `connected`: connected and considered healthy
+ * - `reconnecting`: the connection was lost and is being re-established
+ * - `disconnected`: closed by `disconnect()`, or lost with auto-reconnect off
+ * - `failed`: connecting failed, or every reconnect attempt failed
+ */
+export type SessionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'failed'
+
+export interface MCPSessionOptions {
+  /**
+   * Interval between `ping` health checks in milliseconds. Health checks are
+   * disabled when `0` or unset; transport closes are detected regardless.
+   */
+  pingIntervalMs?: number
+  /** Time to wait for a `ping` response (ms). Defaults to 10000. */
+  pingTimeoutMs?: number
+  /** Reconnect automatically when the connection is lost. Defaults to true. */
+  autoReconnect?: boolean
+  /** Maximum reconnect attempts before the session is marked `failed`. Defaults to 5. */
+  maxReconnectAttempts?: number
+  /** Delay before the second reconnect attempt (ms); the first is immediate. Defaults to 500. */
+  initialReconnectDelayMs?: number
+  /** Upper bound for the reconnect delay (ms). Defaults to 30000. */
+  maxReconnectDelayMs?: number
+  /** Factor applied to the delay after each failed attempt. Defaults to 2. */
+  reconnectBackoffMultiplier?: number
+}
+
+export interface WatchResourceOptions {
+  /**
+   * Re-read the resource only once no further update arrived for this many
+   * milliseconds. Defaults to 0 (re-read on every update).
+   */
+  debounceMs?: number
+  /** Called when re-reading the resource fails. Defaults to logging a warning. */
+  onError?: (error: Error) => void
+}
+
+/** Receives the contents of a watched resource after it changed. */
+export type ResourceUpdateCallback = (contents: ReadResourceResult['contents']) => void
+
+interface ResourceWatch {
+  callback: ResourceUpdateCallback
+  options: WatchResourceOptions
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+/** The server subscription to one URI, shared by all of its watches. */
+interface ResourceSubscription {
+  /** Settles once the server accepted the subscription. */
+  subscribed: Promise<void>
+  watches: Set<ResourceWatch>
+}
+
+/**
+ * Events emitted by `MCPSession`. Subscribe with `session.on(event, listener)`.
+ */
+export interface MCPSessionEvents {
+  stateChanged: (event: { state: SessionState, previousState: SessionState, error?: Error }) => void
+  /** The connection was lost (transport closed or health check failed). */
+  connectionLost: (event: { error: Error }) => void
+  /** A `ping` health check failed or timed out. */
+  healthCheckFailed: (event: { error: Error }) => void
+  /** Emitted before each reconnect attempt. */
+  reconnecting: (event: { attempt: number, delayMs: number, error?: Error }) => void
+  /** The connection was re-established and the tools cache refreshed. */
+  reconnected: (event: { attempts: number }) => void
+}
+
+const DEFAULT_SESSION_OPTIONS: Required<MCPSessionOptions> = {
+  pingIntervalMs: 0,
+  pingTimeoutMs: 10_000,
+  autoReconnect: true,
+  maxReconnectAttempts: 5,
+  initialReconnectDelayMs: 500,
+  maxReconnectDelayMs: 30_000,
+  reconnectBackoffMultiplier: 2,
+}
+
+export class MCPSession extends TypedEventEmitter<MCPSessionEvents> {
   readonly connector: BaseConnector
   private autoConnect: boolean
+  private readonly options: Required<MCPSessionOptions>
+  private _state: SessionState = 'idle'
+  private pingTimer: ReturnType<typeof setInterval> | null = null
+  private unsubscribeConnectorClose: (() => void) | null = null
+  private reconnectPromise: Promise<void> | null = null
+  private closedByUser = false
+  private readonly resourceWatches = new Map<string, ResourceSubscription>()
+  private unsubscribeResourceUpdates: (() => void) | null = null
 
-  constructor(connector: BaseConnector, autoConnect = true) {
+  constructor(connector: BaseConnector, autoConnect = true, options: MCPSessionOptions = {}) {
+    super()
     this.connector = connector
     this.autoConnect = autoConnect
+    this.options = { ...DEFAULT_SESSION_OPTIONS, ...options }
+  }
+
+  get state(): SessionState {
+    return this._state
   }
 
   async connect(): Promise<void> {
-    await this.connector.connect()
+    this.closedByUser = false
+    this.setState('connecting')
+    try {
+      await this.connector.connect()
+    }
+    catch (e) {
+      this.setState('failed', toError(e))
+      throw e
+    }
+    this.setState('connected')
+    this.startMonitoring()
   }
 
   async disconnect(): Promise<void> {
-    await this.connector.disconnect()
+    this.closedByUser = true
+    this.stopMonitoring()
+    this.clearResourceWatches()
+    try {
+      await this.connector.disconnect()
+    }
+    finally {
+      this.setState('disconnected')
+    }
   }
 
   async initialize(): Promise<void> {
@@ -22,9 +141,333 @@ export class MCPSession {
       await this.connect()
     }
     await this.connector.initialize()
+    if (this._state === 'idle' && this.isConnected) {
+      // Connector was connected before it was wrapped in this session
+      this.setState('connected')
+      this.startMonitoring()
+    }
+  }
+
+  /**
+   * Call a tool on the server. See `BaseConnector.callTool` for progress and
+   * timeout options.
+   */
+  async callTool(name: string, args: Record<string, any>, options?: CallToolOptions): Promise<CallToolResult> {
+    return await this.connector.callTool(name, args, options)
+  }
+
+  /**
+   * Get suggestions for a prompt argument or resource template variable. See
+   * `BaseConnector.complete`.
+   */
+  async complete(
+    ref: CompletionReference,
+    argument: CompletionArgument,
+    context?: Record<string, string>,
+  ): Promise<Completion> {
+    return await this.connector.complete(ref, argument, context)
+  }
+
+  /** The roots exposed to the server, or `null` if none were configured. */
+  getRoots(): Root[] | null {
+    return this.connector.getRoots()
+  }
+
+  /**
+   * Replace the filesystem roots exposed to the server and notify it with
+   * `notifications/roots/list_changed`.
+   */
+  async setRoots(roots: Root[]): Promise<void> {
+    await this.connector.setRoots(roots)
+  }
+
+  /**
+   * Subscribe to a resource and call `callback` with its fresh contents after
+   * each `notifications/resources/updated` from the server. Subscriptions are
+   * restored after a reconnect, and the resource is re-read then in case
+   * updates were missed. Watches end when the session is disconnected.
+   *
+   * @returns A function that stops watching. The server subscription is
+   *          dropped when the last watcher of `uri` stops.
+   */
+  async watchResource(
+    uri: string,
+    callback: ResourceUpdateCallback,
+    options: WatchResourceOptions = {},
+  ): Promise<() => Promise<void>> {
+    // Register before subscribing, so concurrent watches of `uri` share one subscription
+    let subscription = this.resourceWatches.get(uri)
+    if (!subscription) {
+      subscription = { subscribed: this.connector.subscribeToResource(uri).then(() => {}), watches: new Set() }
+      this.resourceWatches.set(uri, subscription)
+    }
+    const watch: ResourceWatch = { callback, options, timer: null }
+    subscription.watches.add(watch)
+    this.unsubscribeResourceUpdates ??= this.connector.onNotification(notification => this.handleResourceUpdate(notification))
+
+    try {
+      await subscription.subscribed
+    }
+    catch (e) {
+      this.removeResourceWatch(uri, watch)
+      throw e
+    }
+
+    return async () => {
+      if (this.removeResourceWatch(uri, watch) && this.isConnected) {
+        await this.connector.unsubscribeFromResource(uri)
+      }
+    }
+  }
+
+  /** Change the minimum severity of log messages the server sends. */
+  async setLogLevel(level: LoggingLevel): Promise<void> {
+    await this.connector.setLogLevel(level)
   }
 
   get isConnected(): boolean {
     return this.connector && this.connector.isClientConnected
   }
+
+  /**
+   * Ping the server once. A failed or timed-out ping is treated as a lost
+   * connection.
+   *
+   * @returns Whether the server answered.
+   */
+  async checkHealth(): Promise<boolean> {
+    if (this._state !== 'connected') {
+      return false
+    }
+    try {
+      await withTimeout(
+        this.connector.ping(),
+        this.options.pingTimeoutMs,
+        `Ping timed out after ${this.options.pingTimeoutMs}ms`,
+      )
+      return true
+    }
+    catch (e) {
+      const error = toError(e)
+      if (this._state !== 'connected') {
+        return false
+      }
+      logger.warn(`MCP health check failed: ${error.message}`)
+      this.emit('healthCheckFailed', { error })
+      this.handleConnectionLost(error)
+      return false
+    }
+  }
+
+  /**
+   * Re-establish the connection with exponential backoff, re-running
+   * `initialize` so the tools cache reflects the restarted server. Concurrent
+   * calls share the same attempt.
+   *
+   * @throws The last connection error once `maxReconnectAttempts` is exhausted.
+   */
+  async reconnect(error?: Error): Promise<void> {
+    if (!this.reconnectPromise) {
+      this.reconnectPromise = this.runReconnect(error).finally(() => {
+        this.reconnectPromise = null
+      })
+    }
+    return this.reconnectPromise
+  }
+
+  private async runReconnect(cause?: Error): Promise<void> {
+    const { maxReconnectAttempts, initialReconnectDelayMs, maxReconnectDelayMs, reconnectBackoffMultiplier } = this.options
+    this.closedByUser = false
+    this.stopMonitoring()
+    let lastError = cause
+
+    for (let attempt = 1; attempt <= maxReconnectAttempts; attempt++) {
+      const delayMs = attempt === 1
+        ? 0
+        : Math.min(initialReconnectDelayMs * reconnectBackoffMultiplier ** (attempt - 2), maxReconnectDelayMs)
+      this.setState('reconnecting', lastError)
+      this.emit('reconnecting', { attempt, delayMs, error: lastError })
+      if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+      }
+      if (this.closedByUser) {
+        return
+      }
+
+      try {
+        await this.connector.disconnect().catch((e) => {
+          logger.debug(`Error tearing down lost connection: ${e}`)
+        })
+        await this.connector.connect()
+        await this.connector.initialize()
+        this.setState('connected')
+        this.startMonitoring()
+        await this.restoreResourceWatches()
+        logger.info(`Reconnected to MCP server after ${attempt} attempt(s)`)
+        this.emit('reconnected', { attempts: attempt })
+        return
+      }
+      catch (e) {
+        lastError = toError(e)
+        logger.warn(`Reconnect attempt ${attempt}/${maxReconnectAttempts} failed: ${lastError.message}`)
+      }
+    }
+
+    this.setState('failed', lastError)
+    throw lastError ?? new Error('Failed to reconnect to MCP server')
+  }
+
+  private handleConnectionLost(error: Error): void {
+    if (this.closedByUser || this._state !== 'connected') {
+      return
+    }
+    this.stopMonitoring()
+    this.emit('connectionLost', { error })
+
+    if (!this.options.autoReconnect) {
+      this.setState('disconnected', error)
+      return
+    }
+    this.reconnect(error).catch((e) => {
+      logger.error(`Giving up reconnecting to MCP server: ${e}`)
+    })
+  }
+
+  private startMonitoring(): void {
+    this.stopMonitoring()
+    this.unsubscribeConnectorClose = this.connector.onConnectionClosed(() => {
+      this.handleConnectionLost(new Error('MCP connection closed'))
+    })
+
+    if (this.options.pingIntervalMs > 0) {
+      this.pingTimer = setInterval(() => {
+        void this.checkHealth()
+      }, this.options.pingIntervalMs)
+      // Health checks must not keep the process alive on their own
+      if (typeof this.pingTimer === 'object' && 'unref' in this.pingTimer) {
+        this.pingTimer.unref()
+      }
+    }
+  }
+
+  private stopMonitoring(): void {
+    this.unsubscribeConnectorClose?.()
+    this.unsubscribeConnectorClose = null
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = null
+    }
+  }
+
+  private handleResourceUpdate(notification: Notification): void {
+    if (notification.method !== 'notifications/resources/updated') {
+      return
+    }
+    const uri = notification.params?.uri
+    if (typeof uri !== 'string') {
+      return
+    }
+    for (const watch of this.resourceWatches.get(uri)?.watches ?? []) {
+      this.scheduleResourceRead(uri, watch)
+    }
+  }
+
+  private scheduleResourceRead(uri: string, watch: ResourceWatch): void {
+    if (watch.timer) {
+      clearTimeout(watch.timer)
+      watch.timer = null
+    }
+    const debounceMs = watch.options.debounceMs ?? 0
+    if (debounceMs <= 0) {
+      void this.deliverResource(uri, watch)
+      return
+    }
+    watch.timer = setTimeout(() => {
+      watch.timer = null
+      void this.deliverResource(uri, watch)
+    }, debounceMs)
+  }
+
+  private async deliverResource(uri: string, watch: ResourceWatch): Promise<void> {
+    try {
+      const { contents } = await this.connector.readResource(uri)
+      // The watch may have been stopped while the read was in flight
+      if (this.resourceWatches.get(uri)?.watches.has(watch)) {
+        watch.callback(contents)
+      }
+    }
+    catch (e) {
+      const error = toError(e)
+      if (watch.options.onError) {
+        watch.options.onError(error)
+      }
+      else {
+        logger.warn(`Failed to re-read watched resource '${uri}': ${error.message}`)
+      }
+    }
+  }
+
+  /** Subscribe again on a fresh connection and catch up on missed updates. */
+  private async restoreResourceWatches(): Promise<void> {
+    for (const [uri, { watches }] of this.resourceWatches) {
+      try {
+        await this.connector.subscribeToResource(uri)
+      }
+      catch (e) {
+        logger.warn(`Failed to re-subscribe to resource '${uri}': ${toError(e).message}`)
+        continue
+      }
+      for (const watch of watches) {
+        this.scheduleResourceRead(uri, watch)
+      }
+    }
+  }
+
+  /**
+   * Stop one watch of `uri`. Returns `true` when it was the last one, so the
+   * server subscription is no longer needed.
+   */
+  private removeResourceWatch(uri: string, watch: ResourceWatch): boolean {
+    if (watch.timer) {
+      clearTimeout(watch.timer)
+      watch.timer = null
+    }
+    const subscription = this.resourceWatches.get(uri)
+    if (!subscription?.watches.delete(watch) || subscription.watches.size > 0) {
+      return false
+    }
+    this.resourceWatches.delete(uri)
+    if (this.resourceWatches.size === 0) {
+      this.unsubscribeResourceUpdates?.()
+      this.unsubscribeResourceUpdates = null
+    }
+    return true
+  }
+
+  private clearResourceWatches(): void {
+    for (const { watches } of this.resourceWatches.values()) {
+      for (const watch of watches) {
+        if (watch.timer) {
+          clearTimeout(watch.timer)
+        }
+      }
+    }
+    this.resourceWatches.clear()
+    this.unsubscribeResourceUpdates?.()
+    this.unsubscribeResourceUpdates = null
+  }
+
+  private setState(state: SessionState, error?: Error): void {
+    if (state === this._state) {
+      return
+    }
+    const previousState = this._state
+    this._state = state
+    logger.debug(`MCP session state: ${previousState} -> ${state}`)
+    this.emit('stateChanged', { state, previousState, error })
+  }
+}
+
+function toError(e: unknown): Error {
+  return e instanceof Error ? e : new Error(String(e))
 }
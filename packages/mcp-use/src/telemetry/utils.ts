@@ -1,4 +1,4 @@
-import type { BaseLanguageModel } from '@langchain/core/language_models/base'
+import type { BaseLanguageModelInterface } from '@langchain/core/language_models/base'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 
@@ -18,12 +18,12 @@ export function getPackageVersion(): string {
   }
 }
 
-export function getModelProvider(llm: BaseLanguageModel): string {
+export function getModelProvider(llm: BaseLanguageModelInterface): string {
   // Use LangChain's standard _llm_type property for identification
   return (llm as any)._llm_type || llm.constructor.name.toLowerCase()
 }
 
-export function getModelName(llm: BaseLanguageModel): string {
+export function getModelName(llm: BaseLanguageModelInterface): string {
   // First try _identifying_params which may contain model info
   if ('_identifyingParams' in llm) {
     const identifyingParams = (llm as any)._identifyingParams
@@ -41,6 +41,6 @@ export function getModelName(llm: BaseLanguageModel): string {
   return (llm as any).model || (llm as any).modelName || llm.constructor.name
 }
 
-export function extractModelInfo(llm: BaseLanguageModel): [string, string] {
+export function extractModelInfo(llm: BaseLanguageModelInterface): [string, string] {
   return [getModelProvider(llm), getModelName(llm)]
 }
@@ -0,0 +1,154 @@
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js'
+import { logger } from './logging.js'
+
+export interface CachedToolResult {
+  result: CallToolResult
+  /** Epoch milliseconds after which the entry must not be used. */
+  expiresAt: number
+}
+
+/**
+ * Storage backend for `ToolResultCache`. Implement it to keep results
+ * somewhere other than process memory, e.g. to share them between processes.
+ */
+export interface ToolCacheStore {
+  get: (key: string) => Promise<CachedToolResult | undefined>
+  set: (key: string, entry: CachedToolResult) => Promise<void>
+  delete: (key: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+/**
+ * Keeps at most `maxSize` entries in memory, evicting the least recently used.
+ */
+export class InMemoryToolCacheStore implements ToolCacheStore {
+  private readonly entries = new Map<string, CachedToolResult>()
+
+  constructor(private readonly maxSize = 500) {}
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  async get(key: string): Promise<CachedToolResult | undefined> {
+    const entry = this.entries.get(key)
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CachedToolResult): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+export interface ToolCacheOptions {
+  /** How long a result stays valid, in milliseconds. Defaults to 60000. */
+  ttlMs?: number
+  /** Maximum number of results kept by the default in-memory store. Defaults to 500. */
+  maxSize?: number
+  /** Where results are stored. Defaults to an `InMemoryToolCacheStore`. */
+  store?: ToolCacheStore
+  /**
+   * Decide whether results of a tool may be cached. Defaults to
+   * `isCacheableTool`, i.e. tools annotated read-only or idempotent.
+   */
+  isCacheable?: (tool: Tool, serverName: string) => boolean
+}
+
+/**
+ * Whether a tool declares that calling it again with the same arguments is
+ * safe to answer from a cache: `readOnlyHint` or `idempotentHint` is set.
+ */
+export function isCacheableTool(tool: Tool): boolean {
+  return tool.annotations?.readOnlyHint === true || tool.annotations?.idempotentHint === true
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so that arguments that
+ * only differ in key order produce the same string.
+ */
+export function canonicalizeArguments(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(Object.entries(val).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    }
+    return val
+  })
+}
+
+/**
+ * Caches `callTool` results by server, tool name and arguments. One cache can
+ * be shared by every session of an `MCPClient`. Error results are never
+ * cached, and store failures are logged rather than failing the tool call.
+ * Results are copied on the way in and out, so callers may modify them.
+ */
+export class ToolResultCache {
+  readonly ttlMs: number
+  private readonly store: ToolCacheStore
+  private readonly cacheable: (tool: Tool, serverName: string) => boolean
+
+  constructor(options: ToolCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60_000
+    this.store = options.store ?? new InMemoryToolCacheStore(options.maxSize)
+    this.cacheable = options.isCacheable ?? isCacheableTool
+  }
+
+  isCacheable(tool: Tool, serverName: string): boolean {
+    return this.cacheable(tool, serverName)
+  }
+
+  key(serverName: string, toolName: string, args: Record<string, any>): string {
+    return canonicalizeArguments([serverName, toolName, args ?? {}])
+  }
+
+  async get(serverName: string, toolName: string, args: Record<string, any>): Promise<CallToolResult | undefined> {
+    const key = this.key(serverName, toolName, args)
+    try {
+      const entry = await this.store.get(key)
+      if (!entry) {
+        return undefined
+      }
+      if (entry.expiresAt <= Date.now()) {
+        await this.store.delete(key)
+        return undefined
+      }
+      return structuredClone(entry.result)
+    }
+    catch (e) {
+      logger.warn(`Tool cache lookup failed for '${toolName}': ${e}`)
+      return undefined
+    }
+  }
+
+  async set(serverName: string, toolName: string, args: Record<string, any>, result: CallToolResult): Promise<void> {
+    if (result.isError) {
+      return
+    }
+    try {
+      await this.store.set(this.key(serverName, toolName, args), { result: structuredClone(result), expiresAt: Date.now() + this.ttlMs })
+    }
+    catch (e) {
+      logger.warn(`Failed to cache result of tool '${toolName}': ${e}`)
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear()
+  }
+}
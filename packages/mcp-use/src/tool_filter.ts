@@ -0,0 +1,72 @@
+import type { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * Annotation hints a tool must declare, with these values, to match. Tools
+ * that do not declare a hint never match it, whatever the protocol default.
+ */
+export type ToolAnnotationPattern = Pick<ToolAnnotations, 'readOnlyHint' | 'destructiveHint' | 'idempotentHint' | 'openWorldHint'>
+
+/**
+ * Matches tools by name, where `*` matches any run of characters and `?` a
+ * single character, or by annotation hints.
+ */
+export type ToolPattern = string | ToolAnnotationPattern
+
+export interface ToolFilterOptions {
+  /** Only tools matching one of these patterns are available. */
+  allowedTools?: ToolPattern[]
+  /** Tools matching one of these patterns are not available, even if allowed. */
+  disabledTools?: ToolPattern[]
+}
+
+/**
+ * Compile a name pattern with `*` and `?` wildcards to an anchored regular
+ * expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+  return new RegExp(`^${source}$`)
+}
+
+type Matcher = (name: string, tool?: Tool) => boolean
+
+function compile(pattern: ToolPattern): Matcher {
+  if (typeof pattern === 'string') {
+    const regex = globToRegExp(pattern)
+    return name => regex.test(name)
+  }
+  const hints = Object.entries(pattern) as Array<[keyof ToolAnnotationPattern, boolean | undefined]>
+  return (_name, tool) => tool !== undefined && hints.every(([hint, value]) => tool.annotations?.[hint] === value)
+}
+
+/**
+ * Decides which of a server's tools may be listed and called, from
+ * `allowedTools` and `disabledTools` patterns.
+ */
+export class ToolFilter {
+  private readonly allowed: Matcher[] | null
+  private readonly disabled: Matcher[]
+  /** Whether any pattern matches annotations, and so needs the tool's definition. */
+  readonly usesAnnotations: boolean
+
+  constructor(options: ToolFilterOptions) {
+    this.allowed = options.allowedTools ? options.allowedTools.map(compile) : null
+    this.disabled = (options.disabledTools ?? []).map(compile)
+    this.usesAnnotations = [...(options.allowedTools ?? []), ...(options.disabledTools ?? [])]
+      .some(pattern => typeof pattern !== 'string')
+  }
+
+  /**
+   * Whether a tool may be used. Annotation patterns only match when the
+   * tool's definition is given.
+   */
+  isAllowed(name: string, tool?: Tool): boolean {
+    if (this.allowed && !this.allowed.some(match => match(name, tool))) {
+      return false
+    }
+    return !this.disabled.some(match => match(name, tool))
+  }
+}
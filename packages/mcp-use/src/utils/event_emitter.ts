@@ -0,0 +1,65 @@
+import { logger } from '../logging.js'
+
+/**
+ * Minimal, platform-independent typed event emitter.
+ *
+ * Used instead of `node:events` so classes that also run in the browser can
+ * expose events. Listener errors are logged and never propagate to the emitter.
+ */
+export class TypedEventEmitter<Events extends { [E in keyof Events]: (...args: any[]) => void }> {
+  private readonly listeners: { [E in keyof Events]?: Set<Events[E]> } = {}
+
+  /**
+   * Register a listener.
+   *
+   * @returns A function that removes the listener.
+   */
+  on<E extends keyof Events>(event: E, listener: Events[E]): () => void {
+    const set = this.listeners[event] ?? new Set<Events[E]>()
+    set.add(listener)
+    this.listeners[event] = set
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * Register a listener that is removed after its first invocation.
+   */
+  once<E extends keyof Events>(event: E, listener: Events[E]): () => void {
+    const wrapper = ((...args: Parameters<Events[E]>) => {
+      this.off(event, wrapper)
+      listener(...args)
+    }) as Events[E]
+    return this.on(event, wrapper)
+  }
+
+  /** Remove a previously registered listener. */
+  off<E extends keyof Events>(event: E, listener: Events[E]): void {
+    this.listeners[event]?.delete(listener)
+  }
+
+  /** Remove all listeners, or all listeners of one event. */
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      for (const key of Object.keys(this.listeners) as (keyof Events)[]) {
+        delete this.listeners[key]
+      }
+      return
+    }
+    delete this.listeners[event]
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>): void {
+    const set = this.listeners[event]
+    if (!set) {
+      return
+    }
+    for (const listener of [...set]) {
+      try {
+        listener(...args)
+      }
+      catch (e) {
+        logger.error(`Error in '${String(event)}' event listener: ${e}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for cancelling tool calls and agent runs with an AbortSignal
+ */
+
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base'
+import { AIMessageChunk } from '@langchain/core/messages'
+import { FakeStreamingChatModel } from '@langchain/core/utils/testing'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { MCPAgent, Telemetry } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+/**
+ * Connector whose `crawl` tool runs until the client cancels it and whose
+ * `ping` tool answers at once.
+ */
+class CrawlServerConnector extends LinkedConnector {
+  readonly started = vi.fn()
+  readonly cancelled = vi.fn()
+  readonly pinged = vi.fn()
+
+  constructor() {
+    super({ serverName: 'crawl-server', capabilities: { tools: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [
+        { name: 'crawl', inputSchema: { type: 'object', properties: {} } },
+        { name: 'ping', inputSchema: { type: 'object', properties: {} } },
+      ],
+    }))
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      if (request.params.name === 'ping') {
+        this.pinged()
+        return { content: [{ type: 'text', text: 'pong' }] }
+      }
+      this.started()
+      await new Promise<void>((resolve) => {
+        extra.signal.addEventListener('abort', () => {
+          this.cancelled(extra.signal.reason)
+          resolve()
+        })
+      })
+      return { content: [{ type: 'text', text: 'partial' }] }
+    })
+  }
+}
+
+/** Chat model that asks for a call to `tool` on every turn. */
+function toolCallingModel(tool: string): FakeStreamingChatModel {
+  return new FakeStreamingChatModel({
+    chunks: [new AIMessageChunk({ content: '', tool_calls: [{ name: tool, args: {}, id: `call_${tool}`, type: 'tool_call' }] })],
+  })
+}
+
+async function createAgent(tool: string, callbacks?: BaseCallbackHandler[]): Promise<{ agent: MCPAgent, connector: CrawlServerConnector }> {
+  vi.spyOn(Telemetry.getInstance(), 'trackAgentExecution').mockResolvedValue(undefined)
+  const connector = new CrawlServerConnector()
+  const agent = new MCPAgent({ llm: toolCallingModel(tool), connectors: [connector], callbacks })
+  await agent.initialize()
+  return { agent, connector }
+}
+
+describe('cancellation', () => {
+  it('cancels in-flight tool calls on the server', async () => {
+    const connector = new CrawlServerConnector()
+    await connector.connect()
+
+    const controller = new AbortController()
+    const call = connector.callTool('crawl', {}, { signal: controller.signal })
+    await vi.waitFor(() => expect(connector.started).toHaveBeenCalled())
+    controller.abort(new Error('Stop pressed'))
+
+    await expect(call).rejects.toThrow('Stop pressed')
+    await vi.waitFor(() => expect(connector.cancelled).toHaveBeenCalledWith('Error: Stop pressed'))
+
+    await connector.disconnect()
+  })
+
+  it('stops run() and cancels the in-flight tool call', async () => {
+    const { agent, connector } = await createAgent('crawl')
+
+    const controller = new AbortController()
+    const run = agent.run('crawl everything', 5, true, undefined, undefined, controller.signal)
+    await vi.waitFor(() => expect(connector.started).toHaveBeenCalled())
+    controller.abort(new Error('Stop pressed'))
+
+    await expect(run).rejects.toThrow('Stop pressed')
+    expect(connector.cancelled).toHaveBeenCalledWith('Error: Stop pressed')
+    expect(connector.started).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not start another step once aborted', async () => {
+    const controller = new AbortController()
+    const { agent, connector } = await createAgent('ping', [
+      BaseCallbackHandler.fromMethods({ handleToolEnd: () => controller.abort() }),
+    ])
+
+    await expect(agent.run('ping forever', 5, true, undefined, undefined, controller.signal))
+      .rejects
+      .toThrow(/aborted/)
+    expect(connector.pinged).toHaveBeenCalledTimes(1)
+  })
+
+  it('passes the signal through streamEvents() to tool calls', async () => {
+    const { agent, connector } = await createAgent('crawl')
+
+    const controller = new AbortController()
+    const events: string[] = []
+    const consume = (async () => {
+      for await (const event of agent.streamEvents('crawl everything', 5, true, undefined, undefined, controller.signal)) {
+        events.push(event.event)
+      }
+    })()
+    await vi.waitFor(() => expect(connector.started).toHaveBeenCalled())
+    controller.abort()
+
+    await expect(consume).rejects.toThrow(/abort/i)
+    await vi.waitFor(() => expect(connector.cancelled).toHaveBeenCalled())
+    expect(events).toContain('on_tool_start')
+    expect(events).not.toContain('on_tool_end')
+  })
+})
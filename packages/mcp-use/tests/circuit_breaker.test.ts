@@ -0,0 +1,126 @@
+/**
+ * Tests for per-server circuit breaking
+ */
+
+import type { ConnectorInitOptions } from '../src/connectors/base.js'
+import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CircuitBreaker, isServerFailure, validateServerConfig } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+/** Server that fails tool calls with an internal error while `down` is set. */
+class UpstreamConnector extends LinkedConnector {
+  down = false
+  calls = 0
+
+  constructor(opts: ConnectorInitOptions) {
+    super({ ...opts, serverName: 'upstream', capabilities: { tools: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }))
+    this.server.setRequestHandler(CallToolRequestSchema, async () => {
+      this.calls++
+      if (this.down) {
+        throw new McpError(ErrorCode.InternalError, 'upstream down')
+      }
+      return { content: [{ type: 'text', text: 'ok' }] }
+    })
+  }
+}
+
+function serverError(): McpError {
+  return new McpError(ErrorCode.InternalError, 'boom')
+}
+
+describe('circuit breaker', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts only failures of the server itself', () => {
+    expect(isServerFailure(serverError())).toBe(true)
+    expect(isServerFailure(new McpError(ErrorCode.RequestTimeout, 'timed out'))).toBe(true)
+    expect(isServerFailure(new McpError(ErrorCode.ConnectionClosed, 'closed'))).toBe(true)
+    expect(isServerFailure(new McpError(ErrorCode.InvalidParams, 'bad'))).toBe(false)
+  })
+
+  it('opens after consecutive failures and closes after a successful probe', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 })
+    const fail = vi.fn(async () => {
+      throw serverError()
+    })
+
+    await expect(breaker.run('Call', fail)).rejects.toThrow(/boom/)
+    expect(breaker.state).toBe('closed')
+    await expect(breaker.run('Call', fail)).rejects.toThrow(/boom/)
+    expect(breaker.state).toBe('open')
+
+    await expect(breaker.run('Call', fail)).rejects.toThrow('Call failed: server unavailable after 2 consecutive failures, will retry in 1s')
+    expect(fail).toHaveBeenCalledTimes(2)
+
+    // A failed probe opens the circuit again
+    vi.advanceTimersByTime(1000)
+    expect(breaker.state).toBe('half-open')
+    await expect(breaker.run('Call', fail)).rejects.toThrow(/boom/)
+    expect(breaker.state).toBe('open')
+
+    vi.advanceTimersByTime(1000)
+    await expect(breaker.run('Call', async () => 'ok')).resolves.toBe('ok')
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('lets a single probe through while half-open', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10 })
+    await expect(breaker.run('Call', async () => {
+      throw serverError()
+    })).rejects.toThrow()
+    vi.advanceTimersByTime(10)
+
+    let finishProbe!: () => void
+    const probe = breaker.run('Call', () => new Promise<void>((resolve) => {
+      finishProbe = resolve
+    }))
+    await expect(breaker.run('Call', async () => {})).rejects.toThrow(/a probe request is in progress/)
+    finishProbe()
+    await probe
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('does not count errors the server answered deliberately', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+    await expect(breaker.run('Call', async () => {
+      throw serverError()
+    })).rejects.toThrow()
+    await expect(breaker.run('Call', async () => {
+      throw new McpError(ErrorCode.InvalidParams, 'bad')
+    })).rejects.toThrow()
+    await expect(breaker.run('Call', async () => {
+      throw serverError()
+    })).rejects.toThrow()
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('fails tool calls fast while the server is down', async () => {
+    const connector = new UpstreamConnector({ circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 } })
+    await connector.connect()
+    await connector.initialize()
+    connector.down = true
+
+    await expect(connector.callTool('search', {})).rejects.toThrow(/upstream down/)
+    await expect(connector.callTool('search', {})).rejects.toThrow(/upstream down/)
+    expect(connector.getCircuitState()).toBe('open')
+    await expect(connector.callTool('search', {})).rejects.toThrow(/Tool call 'search' failed: server unavailable/)
+    await expect(connector.refreshTools()).rejects.toThrow(/Request 'tools\/list' failed: server unavailable/)
+    await expect(connector.request('tools/call', { name: 'search', arguments: {} }))
+      .rejects
+      .toThrow(/Tool call 'search' failed: server unavailable/)
+    expect(connector.calls).toBe(2)
+
+    await connector.disconnect()
+  })
+
+  it('validates circuitBreaker in server config', () => {
+    expect(() => validateServerConfig('a', { url: 'https://example.com/mcp', circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 5000 } })).not.toThrow()
+    expect(() => validateServerConfig('a', { url: 'https://example.com/mcp', circuitBreaker: { failureThreshold: 0 } })).toThrow(/failureThreshold/)
+  })
+})
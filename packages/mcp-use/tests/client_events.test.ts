@@ -0,0 +1,109 @@
+/**
+ * Tests for client-wide session and server lifecycle events
+ */
+
+import type { Notification } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import { describe, expect, it, vi } from 'vitest'
+import { BaseConnector, MCPClient } from '../index.js'
+
+class FakeConnector extends BaseConnector {
+  async connect(): Promise<void> {
+    this.connected = true
+    this.client = {} as any
+  }
+
+  async initialize(): Promise<any> {
+    this.toolsCache = []
+    return {}
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false
+    this.client = null
+  }
+
+  get publicIdentifier(): Record<string, string> {
+    return { type: 'fake' }
+  }
+
+  receive(notification: Notification): void {
+    this.notifyNotification(notification)
+  }
+
+  drop(): void {
+    this.notifyConnectionClosed()
+  }
+}
+
+class TestClient extends MCPClient {
+  protected createConnectorFromConfig(_serverConfig: MCPServerConfig): BaseConnector {
+    return new FakeConnector()
+  }
+}
+
+function connectorOf(client: MCPClient, serverName: string): FakeConnector {
+  return client.getSession(serverName)!.connector as FakeConnector
+}
+
+describe('mCPClient events', () => {
+  it('emits session lifecycle events', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'a' } } })
+    const created = vi.fn()
+    const closed = vi.fn()
+    client.on('sessionCreated', created)
+    client.on('sessionClosed', closed)
+
+    const session = await client.createSession('a')
+    expect(created).toHaveBeenCalledWith({ serverName: 'a', session })
+
+    await client.closeAllSessions()
+    expect(closed).toHaveBeenCalledWith({ serverName: 'a' })
+  })
+
+  it('re-emits server notifications tagged with the server name', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'a' }, b: { command: 'b' } } })
+    await client.createAllSessions()
+
+    const toolsChanged = vi.fn()
+    const resourcesChanged = vi.fn()
+    const serverLog = vi.fn()
+    client.on('toolsChanged', toolsChanged)
+    client.on('resourcesChanged', resourcesChanged)
+    client.on('serverLog', serverLog)
+
+    connectorOf(client, 'a').receive({ method: 'notifications/tools/list_changed' })
+    connectorOf(client, 'b').receive({ method: 'notifications/resources/updated', params: { uri: 'file:///x' } })
+    connectorOf(client, 'b').receive({ method: 'notifications/message', params: { level: 'warning', logger: 'db', data: 'slow query' } })
+
+    expect(toolsChanged).toHaveBeenCalledWith({ serverName: 'a' })
+    expect(resourcesChanged).toHaveBeenCalledWith({ serverName: 'b', uri: 'file:///x' })
+    expect(serverLog).toHaveBeenCalledWith({ serverName: 'b', level: 'warning', logger: 'db', data: 'slow query' })
+  })
+
+  it('reports lost and re-established connections', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'a' } } }, { session: { initialReconnectDelayMs: 1 } })
+    await client.createSession('a')
+    const connectionLost = vi.fn()
+    const reconnected = vi.fn()
+    client.on('connectionLost', connectionLost)
+    client.on('reconnected', reconnected)
+
+    connectorOf(client, 'a').drop()
+
+    await vi.waitFor(() => expect(reconnected).toHaveBeenCalledWith({ serverName: 'a', attempts: 1 }))
+    expect(connectionLost).toHaveBeenCalledWith({ serverName: 'a', error: expect.any(Error) })
+  })
+
+  it('stops forwarding events once a session is closed', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'a' } } })
+    await client.createSession('a')
+    const connector = connectorOf(client, 'a')
+    await client.closeSession('a')
+
+    const toolsChanged = vi.fn()
+    client.on('toolsChanged', toolsChanged)
+    connector.receive({ method: 'notifications/tools/list_changed' })
+    expect(toolsChanged).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Tests for argument completion (completion/complete)
+ */
+
+import { CompleteRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { MCPSession } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+const LANGUAGES = ['python', 'perl', 'php', 'typescript']
+
+describe('completion', () => {
+  it('returns suggestions for prompt arguments and resource template variables', async () => {
+    const connector = new LinkedConnector({ capabilities: { completions: {} } })
+    const handler = vi.fn(async (request: any) => {
+      const { ref, argument, context } = request.params
+      if (ref.type === 'ref/prompt') {
+        const values = LANGUAGES.filter(language => language.startsWith(argument.value))
+        return { completion: { values: values.slice(0, 2), total: values.length, hasMore: values.length > 2 } }
+      }
+      return { completion: { values: [`${context?.arguments?.owner ?? 'unknown'}/${argument.value}-repo`] } }
+    })
+    connector.server.setRequestHandler(CompleteRequestSchema, handler)
+    const session = new MCPSession(connector, false)
+    await connector.connect()
+
+    expect(await session.complete({ type: 'ref/prompt', name: 'review' }, { name: 'language', value: 'p' }))
+      .toEqual({ values: ['python', 'perl'], total: 3, hasMore: true })
+    expect(await session.complete(
+      { type: 'ref/resource', uri: 'repo://{owner}/{name}' },
+      { name: 'name', value: 'mcp' },
+      { owner: 'acme' },
+    )).toEqual({ values: ['acme/mcp-repo'] })
+    expect(handler.mock.calls[1][0].params.context).toEqual({ arguments: { owner: 'acme' } })
+
+    await connector.disconnect()
+  })
+
+  it('returns no suggestions when the server does not support completions', async () => {
+    const connector = new LinkedConnector()
+    await connector.connect()
+
+    expect(await connector.complete({ type: 'ref/prompt', name: 'review' }, { name: 'language', value: 'p' }))
+      .toEqual({ values: [] })
+
+    await connector.disconnect()
+  })
+})
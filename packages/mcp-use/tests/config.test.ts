@@ -0,0 +1,269 @@
+/**
+ * Tests for MCP client configuration validation and interpolation
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { importCursorConfig, loadConfigFile, logger, MCPClient } from '../index.js'
+import { readConfigFile } from '../src/config.js'
+import { inferServerTransport, validateServerConfig } from '../src/config/schema.js'
+
+describe('server config schema', () => {
+  it('infers the transport from the keys that are present', () => {
+    expect(inferServerTransport({ command: 'npx', args: [] })).toBe('stdio')
+    expect(inferServerTransport({ url: 'http://localhost:3000/mcp' })).toBe('http')
+    expect(inferServerTransport({ url: 'http://localhost:3000/sse', transport: 'sse' })).toBe('sse')
+    expect(inferServerTransport({ ws_url: 'ws://localhost:3000' })).toBe('websocket')
+    expect(inferServerTransport({ headers: {} })).toBeNull()
+  })
+
+  it('accepts valid configs for every transport', () => {
+    expect(() => validateServerConfig('fs', { command: 'npx', args: ['-y', 'server'], env: { A: '1' } })).not.toThrow()
+    expect(() => validateServerConfig('http', { url: 'https://example.com/mcp', headers: { 'X-Key': 'abc' } })).not.toThrow()
+    expect(() => validateServerConfig('sse', { url: 'https://example.com/sse', transport: 'sse' })).not.toThrow()
+    expect(() => validateServerConfig('ws', { ws_url: 'ws://localhost:8080', auth_token: 'token' })).not.toThrow()
+  })
+
+  it('names the server and the JSON path of the offending field', () => {
+    expect(() => validateServerConfig('filesystem', { command: 'npx', args: ['-y', 42] }))
+      .toThrow(/server 'filesystem'[\s\S]*mcpServers\.filesystem\.args\[1\]: Expected string, received number/)
+  })
+
+  it('warns about unknown keys so typos are caught early', () => {
+    const warn = vi.spyOn(logger, 'warn')
+    expect(() => validateServerConfig('remote', { url: 'https://example.com/mcp', hedaers: {} })).not.toThrow()
+    expect(warn).toHaveBeenCalledWith(`Ignoring unknown key(s) in mcpServers.remote: 'hedaers'`)
+    warn.mockRestore()
+
+    expect(() => validateServerConfig('mixed', { command: 'node', url: 'https://example.com/mcp' }))
+      .toThrow(/mcpServers\.mixed: Unrecognized key\(s\) in object: 'url', which select a different transport than 'stdio'/)
+  })
+
+  it('rejects configs whose transport cannot be determined', () => {
+    expect(() => validateServerConfig('broken', { args: ['x'] }))
+      .toThrow(/mcpServers\.broken: Cannot determine transport/)
+    expect(() => validateServerConfig('broken', { url: 'https://example.com', transport: 'grpc' }))
+      .toThrow(/mcpServers\.broken\.transport: Expected one of/)
+  })
+})
+
+describe('mCPClient config validation', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-use-config-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('validates config at construction time', () => {
+    expect(() => new MCPClient({ mcpServers: { bad: { url: 'not a url' } as any } }))
+      .toThrow(/mcpServers\.bad\.url: Invalid url/)
+  })
+
+  it('validates servers added with addServer', () => {
+    const client = new MCPClient()
+    expect(() => client.addServer('bad', { command: '' })).toThrow(/mcpServers\.bad\.command/)
+    expect(client.getServerNames()).toEqual([])
+
+    client.addServer('good', { command: 'npx', args: ['server'] })
+    expect(client.getServerNames()).toEqual(['good'])
+  })
+
+  it('validates config files loaded from disk', () => {
+    const file = join(dir, 'mcp.json')
+    writeFileSync(file, JSON.stringify({ mcpServers: { ws: { ws_url: 42 } } }))
+    expect(() => loadConfigFile(file)).toThrow(/mcpServers\.ws\.ws_url: Expected string, received number/)
+
+    writeFileSync(file, '{ "mcpServers": ')
+    expect(() => loadConfigFile(file)).toThrow(/Failed to parse config file/)
+  })
+})
+
+describe('config interpolation', () => {
+  let dir: string
+  const savedEnv = { ...process.env }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-use-config-'))
+    process.env.MCP_TEST_TOKEN = 'secret-token'
+    delete process.env.MCP_TEST_MISSING
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    process.env = { ...savedEnv }
+  })
+
+  function writeConfig(config: Record<string, any>): string {
+    const file = join(dir, 'mcp.json')
+    writeFileSync(file, JSON.stringify(config, null, 2))
+    return file
+  }
+
+  it('expands variables and defaults in any string field', () => {
+    const file = writeConfig({
+      mcpServers: {
+        remote: {
+          url: `\${MCP_TEST_BASE_URL:-https://example.com}/mcp`,
+          headers: { Authorization: `Bearer \${MCP_TEST_TOKEN}` },
+        },
+        local: {
+          command: 'node',
+          args: ['server.js', `--token=\${MCP_TEST_TOKEN}`, `$\${LITERAL}`],
+        },
+      },
+    })
+
+    const config = loadConfigFile(file)
+    expect(config.mcpServers?.remote).toEqual({
+      url: 'https://example.com/mcp',
+      headers: { Authorization: 'Bearer secret-token' },
+    })
+    expect((config.mcpServers?.local as any).args).toEqual(['server.js', '--token=secret-token', `\${LITERAL}`])
+  })
+
+  it('expands empty variables, using the default only when one is given', () => {
+    process.env.MCP_TEST_EMPTY = ''
+    const file = writeConfig({
+      mcpServers: { s: { command: 'node', args: [`--flag=\${MCP_TEST_EMPTY}`, `\${MCP_TEST_EMPTY:-fallback}`] } },
+    })
+    expect((loadConfigFile(file).mcpServers?.s as any).args).toEqual(['--flag=', 'fallback'])
+  })
+
+  it('reports unset variables with their location', () => {
+    const file = writeConfig({ mcpServers: { s: { command: 'node', env: { KEY: `\${MCP_TEST_MISSING}` } } } })
+    expect(() => loadConfigFile(file)).toThrow(/'MCP_TEST_MISSING' referenced at mcpServers\.s\.env\.KEY is not set/)
+  })
+
+  it('loads variables from a sibling .env file when requested', () => {
+    writeFileSync(join(dir, '.env'), 'MCP_TEST_FROM_DOTENV=from-dotenv\nMCP_TEST_TOKEN=ignored\n')
+    const file = writeConfig({
+      mcpServers: { s: { command: 'node', env: { A: `\${MCP_TEST_FROM_DOTENV}`, B: `\${MCP_TEST_TOKEN}` } } },
+    })
+
+    expect(() => loadConfigFile(file)).toThrow(/MCP_TEST_FROM_DOTENV/)
+    const config = loadConfigFile(file, { envFile: true })
+    expect((config.mcpServers?.s as any).env).toEqual({ A: 'from-dotenv', B: 'secret-token' })
+    expect(process.env.MCP_TEST_FROM_DOTENV).toBeUndefined()
+  })
+
+  it('keeps placeholders when saving a config loaded from disk', () => {
+    const file = writeConfig({
+      mcpServers: {
+        remote: { url: 'https://example.com/mcp', auth_token: `\${MCP_TEST_TOKEN}` },
+      },
+    })
+
+    const client = MCPClient.fromConfigFile(file)
+    expect((client.getServerConfig('remote') as any).auth_token).toBe('secret-token')
+
+    client.addServer('local', { command: 'node', args: ['server.js'] })
+    const output = join(dir, 'saved.json')
+    client.saveConfig(output)
+
+    const saved = readConfigFile(output)
+    expect(saved.mcpServers.remote.auth_token).toBe(`\${MCP_TEST_TOKEN}`)
+    expect(saved.mcpServers.local).toEqual({ command: 'node', args: ['server.js'] })
+  })
+})
+
+describe('config importers', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-use-import-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('imports Claude Desktop configs', () => {
+    const file = join(dir, 'claude_desktop_config.json')
+    writeFileSync(file, JSON.stringify({
+      mcpServers: {
+        filesystem: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/tmp'] },
+      },
+      globalShortcut: 'Ctrl+Space',
+    }))
+
+    const samplingHandler = vi.fn()
+    const client = MCPClient.fromClaudeDesktopConfig(file, { samplingHandler })
+    expect(client.getConfig()).toEqual({
+      mcpServers: {
+        filesystem: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/tmp'] },
+      },
+    })
+    expect(client.getSamplingHandler()).toBe(samplingHandler)
+  })
+
+  it('imports Cursor configs with remote servers and env references, skipping disabled ones', () => {
+    expect(importCursorConfig({
+      mcpServers: {
+        remote: { url: 'https://example.com/mcp', headers: { 'X-Key': 'abc' } },
+        legacy: { url: 'https://example.com/sse', type: 'sse' },
+        off: { command: 'server', disabled: true },
+        local: { command: 'server', env: { API_KEY: `\${env:CURSOR_API_KEY}` } },
+      },
+    })).toEqual({
+      mcpServers: {
+        local: { command: 'server', env: { API_KEY: `\${CURSOR_API_KEY}` } },
+        remote: { url: 'https://example.com/mcp', headers: { 'X-Key': 'abc' } },
+        legacy: { transport: 'sse', url: 'https://example.com/sse' },
+      },
+    })
+  })
+
+  it('imports VS Code configs with inputs, env references and comments', () => {
+    const vscodeDir = join(dir, '.vscode')
+    mkdirSync(vscodeDir)
+    const file = join(vscodeDir, 'mcp.json')
+    writeFileSync(file, `{
+      // Prompted by VS Code
+      "inputs": [
+        { "type": "promptString", "id": "api-key", "description": "API Key", "password": true },
+      ],
+      "servers": {
+        "github": {
+          "type": "http",
+          "url": "https://api.example.com/mcp",
+          "headers": { "Authorization": "Bearer \${input:api-key}" }
+        },
+        "local": {
+          "type": "stdio",
+          "command": "node",
+          "args": ["\${workspaceFolder}/server.js"],
+          "env": { "HOME_DIR": "\${env:MCP_TEST_HOME}" }
+        }
+      }
+    }`)
+
+    expect(() => MCPClient.fromVSCodeConfig(file)).toThrow(/VS Code input 'api-key' \(API Key\) is required/)
+
+    process.env.MCP_TEST_HOME = '/home/test'
+    try {
+      const client = MCPClient.fromVSCodeConfig(file, { inputs: { 'api-key': 'secret' } })
+      expect(client.getConfig().mcpServers).toEqual({
+        github: { url: 'https://api.example.com/mcp', headers: { Authorization: 'Bearer secret' } },
+        local: { command: 'node', args: [`${dir}/server.js`], env: { HOME_DIR: '/home/test' } },
+      })
+
+      // Input values are not written back to disk
+      const saved = join(dir, 'saved.json')
+      client.saveConfig(saved)
+      expect(readFileSync(saved, 'utf-8')).not.toContain('secret')
+      expect(JSON.parse(readFileSync(saved, 'utf-8')).mcpServers).toEqual({
+        github: { url: 'https://api.example.com/mcp', headers: { Authorization: `Bearer \${input:api-key}` } },
+        local: { command: 'node', args: [`${dir}/server.js`], env: { HOME_DIR: `\${MCP_TEST_HOME}` } },
+      })
+    }
+    finally {
+      delete process.env.MCP_TEST_HOME
+    }
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for MCPClient config updates and config file hot-reload
+ */
+
+import type { ServerConfigChange } from '../src/client/events.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseConnector, MCPClient } from '../index.js'
+
+class FakeConnector extends BaseConnector {
+  constructor(public readonly serverConfig: MCPServerConfig) {
+    super()
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true
+    this.client = {} as any
+  }
+
+  async initialize(): Promise<any> {
+    this.toolsCache = []
+    return {}
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false
+    this.client = null
+  }
+
+  get publicIdentifier(): Record<string, string> {
+    return { type: 'fake' }
+  }
+}
+
+class TestClient extends MCPClient {
+  protected createConnectorFromConfig(serverConfig: MCPServerConfig): BaseConnector {
+    return new FakeConnector(serverConfig)
+  }
+}
+
+describe('mCPClient config reload', () => {
+  let dir: string
+  let file: string
+
+  function writeServers(mcpServers: Record<string, any>): void {
+    writeFileSync(file, JSON.stringify({ mcpServers }, null, 2))
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-use-reload-'))
+    file = join(dir, 'mcp.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('only touches sessions whose server config changed', async () => {
+    writeServers({
+      a: { command: 'server-a' },
+      b: { url: 'https://example.com/b', headers: { Authorization: 'Bearer old' } },
+      c: { command: 'server-c' },
+    })
+    const client = new TestClient(file)
+    await client.createAllSessions()
+    const sessionA = client.getSession('a')
+    const sessionB = client.getSession('b')
+
+    const events: string[] = []
+    client.on('serverAdded', ({ serverName }) => events.push(`added:${serverName}`))
+    client.on('serverRemoved', ({ serverName }) => events.push(`removed:${serverName}`))
+    client.on('serverUpdated', ({ serverName }) => events.push(`updated:${serverName}`))
+    const configChanged = vi.fn()
+    client.on('configChanged', configChanged)
+
+    writeServers({
+      a: { command: 'server-a' },
+      b: { url: 'https://example.com/b', headers: { Authorization: 'Bearer new' } },
+      d: { command: 'server-d' },
+    })
+    const changes = await client.reloadConfig()
+
+    expect(changes.map(c => `${c.type}:${c.serverName}`).sort()).toEqual(['added:d', 'removed:c', 'updated:b'])
+    expect(events.sort()).toEqual(['added:d', 'removed:c', 'updated:b'])
+    expect(configChanged).toHaveBeenCalledTimes(1)
+
+    expect(client.getSession('a')).toBe(sessionA)
+    expect(client.getSession('b')).not.toBe(sessionB)
+    expect((client.getSession('b')!.connector as FakeConnector).serverConfig).toEqual({
+      url: 'https://example.com/b',
+      headers: { Authorization: 'Bearer new' },
+    })
+    expect(client.getSession('c')).toBeNull()
+    expect(client.getSession('d')).not.toBeNull()
+    expect(client.activeSessions.sort()).toEqual(['a', 'b', 'd'])
+  })
+
+  it('keeps the current config when the file is invalid', async () => {
+    writeServers({ a: { command: 'server-a' } })
+    const client = new TestClient(file)
+
+    writeServers({ a: { command: 42 } })
+    await expect(client.reloadConfig()).rejects.toThrow(/mcpServers\.a\.command/)
+    expect(client.getServerConfig('a')).toEqual({ command: 'server-a' })
+  })
+
+  it('reloads automatically in watch mode', async () => {
+    writeServers({ a: { command: 'server-a' } })
+    const client = new TestClient(file, { watch: true, watchDebounceMs: 10 })
+
+    const changes: ServerConfigChange[] = []
+    client.on('configChanged', event => changes.push(...event.changes))
+
+    try {
+      writeServers({ a: { command: 'server-a' }, b: { command: 'server-b' } })
+      await vi.waitFor(() => expect(changes.map(c => c.serverName)).toEqual(['b']), { timeout: 5000 })
+      expect(client.getServerNames()).toEqual(['a', 'b'])
+    }
+    finally {
+      client.unwatchConfig()
+    }
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Tests for parallel, failure-isolated MCPClient.createAllSessions
+ */
+
+import type { MCPServerConfig } from '../src/config/schema.js'
+import { describe, expect, it } from 'vitest'
+import { BaseConnector, MCPClient } from '../index.js'
+
+let inFlight = 0
+let maxInFlight = 0
+const closed: string[] = []
+
+class FakeConnector extends BaseConnector {
+  constructor(private readonly behaviour: string) {
+    super()
+  }
+
+  async connect(): Promise<void> {
+    inFlight++
+    maxInFlight = Math.max(maxInFlight, inFlight)
+    try {
+      await new Promise(resolve => setTimeout(resolve, 10))
+      if (this.behaviour === 'fail') {
+        throw new Error('spawn ENOENT')
+      }
+      if (this.behaviour === 'hang') {
+        await new Promise(resolve => setTimeout(resolve, 1000))
+      }
+      if (this.behaviour === 'late') {
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+      this.connected = true
+      this.client = {} as any
+    }
+    finally {
+      inFlight--
+    }
+  }
+
+  async initialize(): Promise<any> {
+    this.toolsCache = []
+    return {}
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connected) {
+      closed.push(this.behaviour)
+    }
+    this.connected = false
+    this.client = null
+  }
+
+  get publicIdentifier(): Record<string, string> {
+    return { type: 'fake' }
+  }
+}
+
+class TestClient extends MCPClient {
+  protected createConnectorFromConfig(serverConfig: MCPServerConfig): BaseConnector {
+    return new FakeConnector((serverConfig as { command: string }).command)
+  }
+}
+
+describe('mCPClient createAllSessions', () => {
+  it('isolates failures and reports every server', async () => {
+    const client = new TestClient({
+      mcpServers: {
+        a: { command: 'ok' },
+        broken: { command: 'fail' },
+        b: { command: 'ok' },
+        slow: { command: 'hang' },
+      },
+    })
+
+    const report = await client.createAllSessionsWithReport(true, { timeoutMs: 100 })
+
+    expect(report.connected.map(r => r.serverName).sort()).toEqual(['a', 'b'])
+    expect(report.failed.map(r => r.serverName).sort()).toEqual(['broken', 'slow'])
+    expect(report.failed.find(r => r.serverName === 'broken')!.error.message).toBe('spawn ENOENT')
+    expect(report.failed.find(r => r.serverName === 'slow')!.error.message).toMatch(/Timed out after 100ms/)
+    for (const result of [...report.connected, ...report.failed]) {
+      expect(result.durationMs).toBeGreaterThanOrEqual(0)
+    }
+    expect(Object.keys(report.sessions).sort()).toEqual(['a', 'b'])
+    expect(client.activeSessions.sort()).toEqual(['a', 'b'])
+  })
+
+  it('respects the concurrency limit and skips existing sessions', async () => {
+    const mcpServers = Object.fromEntries(Array.from({ length: 6 }, (_, i) => [`s${i}`, { command: 'ok' }]))
+    const client = new TestClient({ mcpServers })
+    const existing = await client.createSession('s0')
+    inFlight = 0
+    maxInFlight = 0
+
+    const report = await client.createAllSessionsWithReport(true, { concurrency: 2 })
+
+    expect(maxInFlight).toBe(2)
+    expect(report.connected).toHaveLength(5)
+    expect(report.connected.map(r => r.serverName)).not.toContain('s0')
+    expect(client.getSession('s0')).toBe(existing)
+  })
+
+  it('returns the sessions by server name', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'ok' }, broken: { command: 'fail' } } })
+
+    const sessions = await client.createAllSessions()
+
+    expect(Object.keys(sessions)).toEqual(['a'])
+    expect(sessions.a).toBe(client.getSession('a'))
+  })
+
+  it('disconnects a timed-out server once its connect completes', async () => {
+    const client = new TestClient({ mcpServers: { late: { command: 'late' } } })
+    closed.length = 0
+
+    await expect(client.createSession('late', true, { timeoutMs: 20 })).rejects.toThrow(/Timed out after 20ms/)
+    expect(closed).toEqual([])
+    await new Promise(resolve => setTimeout(resolve, 150))
+    expect(closed).toEqual(['late'])
+    expect(client.activeSessions).toEqual([])
+  })
+})
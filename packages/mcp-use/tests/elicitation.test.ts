@@ -0,0 +1,146 @@
+/**
+ * Tests for server-initiated elicitation requests
+ */
+
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js'
+import type { StreamEvent } from '../index.js'
+import { SimpleChatModel } from '@langchain/core/language_models/chat_models'
+import { describe, expect, it, vi } from 'vitest'
+import { MCPAgent, validateElicitationContent } from '../index.js'
+import { ElicitationQueue } from '../src/agents/utils/elicitation_queue.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+class StaticChatModel extends SimpleChatModel {
+  _llmType(): string {
+    return 'static'
+  }
+
+  async _call(): Promise<string> {
+    return 'ok'
+  }
+}
+
+const requestedSchema = {
+  type: 'object' as const,
+  properties: {
+    email: { type: 'string' as const, format: 'email' as const },
+    seats: { type: 'integer' as const, minimum: 1 },
+    plan: { type: 'string' as const, enum: ['free', 'pro'] },
+  },
+  required: ['email'],
+}
+
+describe('elicitation', () => {
+  it('validates content against the requested schema', () => {
+    expect(validateElicitationContent(requestedSchema, { email: 'a@example.com', seats: 2 }))
+      .toEqual({ email: 'a@example.com', seats: 2 })
+    expect(() => validateElicitationContent(requestedSchema, { email: 'nope', seats: 0.5, plan: 'team' }))
+      .toThrow(/email: Invalid email[\s\S]*seats: Expected integer[\s\S]*plan: Invalid enum value/)
+    expect(() => validateElicitationContent(requestedSchema, { seats: 1, extra: true }))
+      .toThrow(/email: Required[\s\S]*Unrecognized key/)
+  })
+
+  it('answers server requests and rejects invalid accepted content', async () => {
+    const elicitationHandler = vi.fn()
+      .mockResolvedValueOnce({ action: 'accept', content: { email: 'a@example.com' } })
+      .mockResolvedValueOnce({ action: 'accept', content: { email: 'not-an-email' } })
+      .mockResolvedValueOnce({ action: 'decline', content: { ignored: true } })
+    const connector = new LinkedConnector({ elicitationHandler })
+    await connector.connect()
+
+    expect(connector.server.getClientCapabilities()?.elicitation).toEqual({})
+    const params = { message: 'Who are you?', requestedSchema }
+    expect(await connector.server.elicitInput(params)).toEqual({ action: 'accept', content: { email: 'a@example.com' } })
+    await expect(connector.server.elicitInput(params)).rejects.toThrow(/does not match the requested schema/)
+    expect(await connector.server.elicitInput(params)).toEqual({ action: 'decline' })
+
+    await connector.disconnect()
+  })
+
+  it('wakes every waiter when an elicitation arrives', async () => {
+    const queue = new ElicitationQueue()
+    const detach = queue.attach()
+    const first = vi.fn()
+    const second = vi.fn()
+    const waiting = [queue.waitForPending().then(first), queue.waitForPending().then(second)]
+
+    const response = queue.handler({ message: 'Who are you?', requestedSchema }, { serverName: 'crm' })
+    await Promise.all(waiting)
+    expect(first).toHaveBeenCalled()
+    expect(second).toHaveBeenCalled()
+
+    detach()
+    expect(await response).toEqual({ action: 'cancel' })
+  })
+
+  it('surfaces elicitations from streamEvents and waits for the response', async () => {
+    const connector = new LinkedConnector()
+    const agent = new MCPAgent({ llm: new StaticChatModel({}), connectors: [connector], elicitation: true })
+    await connector.connect()
+
+    vi.spyOn(agent, 'initialize').mockResolvedValue(undefined)
+    vi.spyOn((agent as any).telemetry, 'trackAgentExecution').mockResolvedValue(undefined)
+    Object.defineProperty(agent, 'agentExecutor', {
+      get: () => ({
+        maxIterations: 1,
+        async* streamEvents() {
+          yield { event: 'on_tool_start', name: 'signup', data: {} }
+          const result = await connector.server.elicitInput({ message: 'Email?', requestedSchema })
+          yield { event: 'on_tool_end', name: 'signup', data: { output: result } }
+        },
+      }),
+      configurable: true,
+    })
+
+    const events: StreamEvent[] = []
+    for await (const event of agent.streamEvents('sign me up', undefined, false)) {
+      events.push(event)
+      if (event.event === 'on_elicitation') {
+        const { message, respond } = event.data as { message: string, respond: (result: ElicitResult) => void }
+        expect(message).toBe('Email?')
+        respond({ action: 'accept', content: { email: 'me@example.com' } })
+      }
+    }
+
+    expect(events.map(e => e.event)).toEqual(['on_tool_start', 'on_elicitation', 'on_tool_end'])
+    expect(events[2].data.output).toEqual({ action: 'accept', content: { email: 'me@example.com' } })
+
+    await connector.disconnect()
+  })
+
+  it('cancels unanswered elicitations and closes the source when the consumer stops', async () => {
+    const connector = new LinkedConnector()
+    const agent = new MCPAgent({ llm: new StaticChatModel({}), connectors: [connector], elicitation: true })
+    await connector.connect()
+
+    vi.spyOn(agent, 'initialize').mockResolvedValue(undefined)
+    vi.spyOn((agent as any).telemetry, 'trackAgentExecution').mockResolvedValue(undefined)
+    let result: Promise<unknown> | undefined
+    let sourceClosed = false
+    Object.defineProperty(agent, 'agentExecutor', {
+      get: () => ({
+        maxIterations: 1,
+        async* streamEvents() {
+          try {
+            result = connector.server.elicitInput({ message: 'Email?', requestedSchema })
+            yield { event: 'on_tool_end', name: 'signup', data: { output: await result } }
+          }
+          finally {
+            sourceClosed = true
+          }
+        },
+      }),
+      configurable: true,
+    })
+
+    for await (const event of agent.streamEvents('sign me up', undefined, false)) {
+      if (event.event === 'on_elicitation') {
+        break
+      }
+    }
+
+    expect(await result).toEqual({ action: 'cancel' })
+    expect(sourceClosed).toBe(true)
+    await connector.disconnect()
+  })
+})
@@ -0,0 +1,34 @@
+/**
+ * Test Helper Connector
+ *
+ * A connector linked to an SDK `Server` in the same process, for tests that
+ * register request handlers on the server or drive it directly.
+ */
+
+import type { ServerCapabilities } from '@modelcontextprotocol/sdk/types.js'
+import type { InMemoryConnectorOptions } from '../../index.js'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { InMemoryConnector } from '../../index.js'
+
+export interface LinkedConnectorOptions extends InMemoryConnectorOptions {
+  /** Name the server reports. Defaults to `test-server`. */
+  serverName?: string
+  /** Capabilities the server advertises. Defaults to none. */
+  capabilities?: ServerCapabilities
+}
+
+/**
+ * `InMemoryConnector` that creates its own low-level `Server` and exposes it
+ * as `server`. Extend it to add request handlers and test state.
+ */
+export class LinkedConnector extends InMemoryConnector {
+  declare readonly server: Server
+
+  constructor(options: LinkedConnectorOptions = {}) {
+    const { serverName = 'test-server', capabilities = {}, ...opts } = options
+    super(new Server({ name: serverName, version: '1.0.0' }, { capabilities }), {
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+      ...opts,
+    })
+  }
+}
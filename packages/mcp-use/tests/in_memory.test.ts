@@ -0,0 +1,107 @@
+/**
+ * Tests for connecting to servers in the same process
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { InMemoryConnector, inferServerTransport, MCPClient, validateServerConfig } from '../index.js'
+import { createMCPServer } from '../src/server/index.js'
+
+function createGreeter(): McpServer {
+  const server = new McpServer({ name: 'greeter', version: '1.0.0' })
+  server.tool('greet', 'Greet someone', { name: z.string() }, async ({ name }) => ({
+    content: [{ type: 'text', text: `Hello, ${name}!` }],
+  }))
+  return server
+}
+
+describe('in-process servers', () => {
+  it('connects an MCPClient with { inProcess: server }', async () => {
+    const client = new MCPClient({ mcpServers: { greeter: { inProcess: createGreeter() } } })
+    const session = await client.createSession('greeter')
+
+    expect(session.connector).toBeInstanceOf(InMemoryConnector)
+    expect(session.connector.tools.map(t => t.name)).toEqual(['greet'])
+    const result = await session.callTool('greet', { name: 'Ada' })
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello, Ada!' }])
+    await client.closeAllSessions()
+  })
+
+  it('connects to an mcp-use server through connectTransport', async () => {
+    const server = createMCPServer('greeter', { version: '1.0.0' })
+    server.tool({
+      name: 'greet',
+      inputs: [{ name: 'name', type: 'string', required: true }],
+      fn: async ({ name }) => ({ content: [{ type: 'text', text: `Hello, ${name}!` }] }),
+    })
+    const client = new MCPClient({ mcpServers: { greeter: { inProcess: server } } })
+    const session = await client.createSession('greeter')
+
+    expect(session.connector.serverInfo?.name).toBe('greeter')
+    expect((await session.callTool('greet', { name: 'Grace' })).content).toEqual([{ type: 'text', text: 'Hello, Grace!' }])
+    await client.closeAllSessions()
+  })
+
+  it('rejects a second connection to the same server', async () => {
+    const server = createGreeter()
+    const first = new InMemoryConnector(server)
+    const second = new InMemoryConnector(server)
+    await first.connect()
+
+    await expect(second.connect()).rejects.toThrow(/already connected to another client/)
+    expect((await first.callTool('greet', { name: 'Ada' })).content).toEqual([{ type: 'text', text: 'Hello, Ada!' }])
+
+    await first.disconnect()
+    await second.connect()
+    expect((await second.callTool('greet', { name: 'Lin' })).content).toEqual([{ type: 'text', text: 'Hello, Lin!' }])
+    await second.disconnect()
+  })
+
+  it('reconnects to the same server', async () => {
+    const server = new McpServer({ name: 'sdk', version: '1.0.0' })
+    server.tool('add', { a: z.number(), b: z.number() }, async ({ a, b }) => ({
+      content: [{ type: 'text', text: String(a + b) }],
+    }))
+    const connector = new InMemoryConnector(server, { name: 'calc' })
+    expect(connector.publicIdentifier).toEqual({ type: 'in-process', name: 'calc' })
+
+    await connector.connect()
+    await connector.initialize()
+    expect((await connector.callTool('add', { a: 2, b: 3 })).content).toEqual([{ type: 'text', text: '5' }])
+    await connector.disconnect()
+
+    await connector.connect()
+    await connector.initialize()
+    expect((await connector.callTool('add', { a: 1, b: 1 })).content).toEqual([{ type: 'text', text: '2' }])
+    await connector.disconnect()
+  })
+
+  it('validates in-process entries', () => {
+    expect(inferServerTransport({ inProcess: createGreeter() })).toBe('in-process')
+    expect(() => validateServerConfig('local', { inProcess: { name: 'not a server' } }))
+      .toThrow(/mcpServers\.local\.inProcess: Expected an MCP server instance/)
+    expect(() => validateServerConfig('local', { inProcess: createGreeter(), command: 'node' }))
+      .toThrow(/Unrecognized key/)
+  })
+
+  it('leaves in-process servers out of saved configs', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'mcp-use-in-process-'))
+    try {
+      const client = new MCPClient({
+        mcpServers: { greeter: { inProcess: createGreeter() }, remote: { url: 'http://localhost:3000/mcp' } },
+      })
+      const file = path.join(dir, 'config.json')
+      client.saveConfig(file)
+      expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({
+        mcpServers: { remote: { url: 'http://localhost:3000/mcp' } },
+      })
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
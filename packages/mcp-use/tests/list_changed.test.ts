@@ -0,0 +1,85 @@
+/**
+ * Tests for list_changed notification handling in connectors and adapters
+ */
+
+import type { Notification, Tool } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import { describe, expect, it } from 'vitest'
+import { BaseConnector, LangChainAdapter, MCPClient } from '../index.js'
+
+function tool(name: string): Tool {
+  return { name, inputSchema: { type: 'object' } }
+}
+
+class DynamicConnector extends BaseConnector {
+  serverTools: Tool[] = [tool('search')]
+
+  async connect(): Promise<void> {
+    this.connected = true
+    this.client = {
+      getServerCapabilities: () => ({ tools: { listChanged: true } }),
+      getServerVersion: () => ({ name: 'dynamic', version: '1.0.0' }),
+      listTools: async () => ({ tools: [...this.serverTools] }),
+    } as any
+  }
+
+  get publicIdentifier(): Record<string, string> {
+    return { type: 'dynamic' }
+  }
+
+  async receive(notification: Notification): Promise<void> {
+    await this.handleNotification(notification)
+  }
+}
+
+class TestClient extends MCPClient {
+  protected createConnectorFromConfig(_serverConfig: MCPServerConfig): BaseConnector {
+    return new DynamicConnector()
+  }
+}
+
+describe('list_changed notifications', () => {
+  it('refreshes the tools cache before notifying listeners', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'a' } } })
+    const connector = (await client.createSession('a')).connector as DynamicConnector
+    expect(connector.tools.map(t => t.name)).toEqual(['search'])
+
+    const seen: string[][] = []
+    client.on('toolsChanged', () => seen.push(connector.tools.map(t => t.name)))
+
+    connector.serverTools = [tool('search'), tool('fetch')]
+    await connector.receive({ method: 'notifications/tools/list_changed' })
+
+    expect(seen).toEqual([['search', 'fetch']])
+  })
+
+  it('invalidates the adapter cache when a connector refreshes its tools', async () => {
+    const connector = new DynamicConnector()
+    await connector.connect()
+    await connector.initialize()
+    const adapter = new LangChainAdapter()
+
+    const before = await adapter.createToolsFromConnectors([connector])
+    expect(before.map(t => t.name)).toEqual(['search'])
+    expect((await adapter.createToolsFromConnectors([connector]))[0]).toBe(before[0])
+
+    connector.serverTools = [tool('fetch')]
+    await connector.receive({ method: 'notifications/tools/list_changed' })
+
+    const after = await adapter.createToolsFromConnectors([connector])
+    expect(after.map(t => t.name)).toEqual(['fetch'])
+  })
+
+  it('emits promptsChanged and resourcesChanged', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'a' } } })
+    const connector = (await client.createSession('a')).connector as DynamicConnector
+    const events: string[] = []
+    client.on('promptsChanged', ({ serverName }) => events.push(`prompts:${serverName}`))
+    client.on('resourcesChanged', ({ serverName }) => events.push(`resources:${serverName}`))
+
+    await connector.receive({ method: 'notifications/prompts/list_changed' })
+    await connector.receive({ method: 'notifications/resources/list_changed' })
+
+    expect(events).toEqual(['prompts:a', 'resources:a'])
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Tests for request and notification middleware
+ */
+
+import type { Notification } from '@modelcontextprotocol/sdk/types.js'
+import type { BaseConnector } from '../index.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { MCPClient } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+class EchoConnector extends LinkedConnector {
+  readonly received: any[] = []
+
+  constructor() {
+    super({ serverName: 'echo', capabilities: { tools: {}, logging: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }))
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      this.received.push(request.params)
+      return { content: [{ type: 'text', text: JSON.stringify(request.params.arguments) }] }
+    })
+  }
+}
+
+class TestClient extends MCPClient {
+  protected createConnectorFromConfig(_serverConfig: MCPServerConfig): BaseConnector {
+    return new EchoConnector()
+  }
+}
+
+describe('middleware', () => {
+  it('sees every request, including the initialize handshake, in registration order', async () => {
+    const connector = new EchoConnector()
+    const calls: string[] = []
+    connector.use({
+      request: async (request, next) => {
+        calls.push(`outer ${request.method}`)
+        const result = await next(request)
+        calls.push(`outer done`)
+        return result
+      },
+    })
+    connector.use({
+      request: async (request, next) => {
+        calls.push(`inner ${request.method}`)
+        return next(request)
+      },
+    })
+    await connector.connect()
+    await connector.initialize()
+
+    expect(calls).toEqual([
+      'outer initialize',
+      'inner initialize',
+      'outer done',
+      'outer tools/list',
+      'inner tools/list',
+      'outer done',
+    ])
+    await connector.disconnect()
+  })
+
+  it('rewrites requests and results', async () => {
+    const connector = new EchoConnector()
+    await connector.connect()
+    connector.use({
+      request: async (request, next) => {
+        if (request.method !== 'tools/call') {
+          return next(request)
+        }
+        const params = request.params as { arguments?: Record<string, unknown> }
+        const result = await next({
+          ...request,
+          params: { ...request.params, _meta: { traceId: 't-1' }, arguments: { ...params.arguments, password: '[redacted]' } },
+        })
+        return { ...result, content: [{ type: 'text', text: 'rewritten' }] }
+      },
+    })
+
+    const result = await connector.callTool('login', { user: 'ada', password: 'hunter2' })
+    expect(result.content).toEqual([{ type: 'text', text: 'rewritten' }])
+    expect(connector.received[0]).toEqual({
+      name: 'login',
+      arguments: { user: 'ada', password: '[redacted]' },
+      _meta: { traceId: 't-1' },
+    })
+    await connector.disconnect()
+  })
+
+  it('rejects requests that a middleware refuses, and can be removed', async () => {
+    const connector = new EchoConnector()
+    await connector.connect()
+    const remove = connector.use({
+      request: async (request, next) => {
+        if (request.method === 'tools/call' && (request.params as any).name === 'drop_table') {
+          throw new Error('Policy forbids drop_table')
+        }
+        return next(request)
+      },
+    })
+
+    await expect(connector.callTool('drop_table', {})).rejects.toThrow('Policy forbids drop_table')
+    expect(connector.received).toEqual([])
+    remove()
+    await connector.callTool('drop_table', {})
+    expect(connector.received).toHaveLength(1)
+    await connector.disconnect()
+  })
+
+  it('checks tool names rewritten by middleware against the tool filter', async () => {
+    const connector = new EchoConnector()
+    await connector.connect()
+    connector.setToolFilter({ disabledTools: ['drop_*'] })
+    connector.use({
+      request: async (request, next) => request.method === 'tools/call'
+        ? next({ ...request, params: { ...request.params, name: 'drop_table' } })
+        : next(request),
+    })
+
+    await expect(connector.callTool('select_rows', {})).rejects.toThrow(`Tool 'drop_table' is disabled for this server`)
+    expect(connector.received).toEqual([])
+    await connector.disconnect()
+  })
+
+  it('rewrites and drops notifications before listeners see them', async () => {
+    const connector = new EchoConnector()
+    await connector.connect()
+    const seen: Notification[] = []
+    connector.onNotification(notification => seen.push(notification))
+    connector.use({
+      notification: (notification) => {
+        const params = notification.params as { level?: string, data?: unknown }
+        if (params.level === 'debug') {
+          return null
+        }
+        return { ...notification, params: { ...params, data: String(params.data).replace(/\d{4}-\d{4}/, '****') } }
+      },
+    })
+
+    await connector.server.sendLoggingMessage({ level: 'debug', data: 'noise' })
+    await connector.server.sendLoggingMessage({ level: 'info', data: 'card 1234-5678 charged' })
+
+    await vi.waitFor(() => expect(seen).toHaveLength(1))
+    expect(seen[0].params).toEqual({ level: 'info', data: 'card **** charged' })
+    await connector.disconnect()
+  })
+
+  it('applies client middleware to every session with the server name', async () => {
+    const client = new TestClient({ mcpServers: { a: { command: 'a' }, b: { command: 'b' } } })
+    await client.createSession('a')
+    const servers: Array<string | undefined> = []
+    const remove = client.use({
+      request: async (request, next, context) => {
+        servers.push(context.serverName)
+        return next(request)
+      },
+    })
+    await client.createSession('b')
+
+    await client.getSession('a')!.callTool('echo', {})
+    await client.getSession('b')!.callTool('echo', {})
+    remove()
+    await client.getSession('a')!.callTool('echo', {})
+
+    // 'b' was created with the middleware in place, so its handshake is included
+    expect(servers).toEqual(['b', 'b', 'a', 'b'])
+    await client.closeAllSessions()
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Tests for cursor pagination of list requests
+ */
+
+import {
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it } from 'vitest'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+const PAGE_SIZE = 100
+
+/** Serve `items` in pages of `PAGE_SIZE`, using the next offset as cursor. */
+function page<T>(items: T[], cursor?: string): { items: T[], nextCursor?: string } {
+  const offset = cursor ? Number(cursor) : 0
+  const end = offset + PAGE_SIZE
+  return { items: items.slice(offset, end), nextCursor: end < items.length ? String(end) : undefined }
+}
+
+class GatewayConnector extends LinkedConnector {
+  readonly serverTools = Array.from({ length: 250 }, (_, i) => ({ name: `tool_${i}`, inputSchema: { type: 'object' as const } }))
+  readonly prompts = Array.from({ length: 120 }, (_, i) => ({ name: `prompt_${i}` }))
+  readonly resources = Array.from({ length: 30 }, (_, i) => ({ uri: `file:///${i}`, name: `resource_${i}` }))
+  readonly templates = Array.from({ length: 101 }, (_, i) => ({ uriTemplate: `repo://${i}/{path}`, name: `template_${i}` }))
+
+  constructor() {
+    super({ serverName: 'gateway', capabilities: { tools: {}, prompts: {}, resources: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      const { items, nextCursor } = page(this.serverTools, request.params?.cursor)
+      return { tools: items, nextCursor }
+    })
+    this.server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+      const { items, nextCursor } = page(this.prompts, request.params?.cursor)
+      return { prompts: items, nextCursor }
+    })
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const { items, nextCursor } = page(this.resources, request.params?.cursor)
+      return { resources: items, nextCursor }
+    })
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
+      const { items, nextCursor } = page(this.templates, request.params?.cursor)
+      return { resourceTemplates: items, nextCursor }
+    })
+  }
+}
+
+describe('pagination', () => {
+  it('loads every page of tools on initialize', async () => {
+    const connector = new GatewayConnector()
+    await connector.connect()
+    await connector.initialize()
+
+    expect(connector.tools).toHaveLength(250)
+    expect(connector.tools.at(-1)?.name).toBe('tool_249')
+
+    await connector.disconnect()
+  })
+
+  it('lists single pages by cursor and all pages with listAll*', async () => {
+    const connector = new GatewayConnector()
+    await connector.connect()
+
+    const first = await connector.listPrompts()
+    expect(first.prompts).toHaveLength(100)
+    expect(first.nextCursor).toBe('100')
+    const second = await connector.listPrompts(first.nextCursor)
+    expect(second.prompts.map(p => p.name)).toEqual(connector.prompts.slice(100).map(p => p.name))
+    expect(second.nextCursor).toBeUndefined()
+
+    expect((await connector.listTools('200')).tools).toHaveLength(50)
+    expect((await connector.listAllPrompts()).prompts).toHaveLength(120)
+    expect((await connector.listAllResources()).resources).toHaveLength(30)
+    expect((await connector.listResourceTemplates()).nextCursor).toBe('100')
+    expect((await connector.listResourceTemplates({ cursor: '100', timeout: 1000 })).resourceTemplates).toHaveLength(1)
+    expect((await connector.listAllResourceTemplates()).resourceTemplates.map(t => t.name))
+      .toEqual(connector.templates.map(t => t.name))
+
+    await connector.disconnect()
+  })
+
+  it('fails instead of looping when a server repeats a cursor', async () => {
+    const connector = new GatewayConnector()
+    connector.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: [{ name: 'again' }], nextCursor: 'same' }))
+    await connector.connect()
+
+    await expect(connector.listAllPrompts()).rejects.toThrow(/cursor 'same' more than once/)
+
+    await connector.disconnect()
+  })
+})
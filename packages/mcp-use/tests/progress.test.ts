@@ -0,0 +1,136 @@
+/**
+ * Tests for progress notifications from long-running tools
+ */
+
+import type { DynamicStructuredTool } from '@langchain/core/tools'
+import type { Progress } from '@modelcontextprotocol/sdk/types.js'
+import type { StreamEvent } from '../index.js'
+import { SimpleChatModel } from '@langchain/core/language_models/chat_models'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { LangChainAdapter, MCPAgent, TOOL_PROGRESS_EVENT } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** Connector whose server reports `steps` progress updates, `delayMs` apart. */
+class BuildServerConnector extends LinkedConnector {
+  constructor(steps = 3, delayMs = 0) {
+    super({ serverName: 'build-server', capabilities: { tools: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'build', inputSchema: { type: 'object', properties: {} } }],
+    }))
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const progressToken = request.params._meta?.progressToken
+      for (let step = 1; step <= steps; step++) {
+        await sleep(delayMs)
+        if (progressToken !== undefined) {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: step, total: steps, message: `step ${step}` },
+          })
+        }
+      }
+      return { content: [{ type: 'text', text: 'built' }] }
+    })
+  }
+}
+
+class StaticChatModel extends SimpleChatModel {
+  _llmType(): string {
+    return 'static'
+  }
+
+  async _call(): Promise<string> {
+    return 'ok'
+  }
+}
+
+describe('tool progress', () => {
+  it('reports progress to onProgress', async () => {
+    const connector = new BuildServerConnector()
+    await connector.connect()
+
+    const updates: Progress[] = []
+    const result = await connector.callTool('build', {}, { onProgress: progress => updates.push(progress) })
+
+    expect(result.content).toEqual([{ type: 'text', text: 'built' }])
+    expect(updates).toEqual([
+      { progress: 1, total: 3, message: 'step 1' },
+      { progress: 2, total: 3, message: 'step 2' },
+      { progress: 3, total: 3, message: 'step 3' },
+    ])
+
+    await connector.disconnect()
+  })
+
+  it('keeps long-running calls alive with resetTimeoutOnProgress', async () => {
+    const connector = new BuildServerConnector(4, 40)
+    await connector.connect()
+
+    await expect(connector.callTool('build', {}, { onProgress: () => {}, timeout: 100 }))
+      .rejects
+      .toThrow(/timed out/)
+    await expect(connector.callTool('build', {}, { onProgress: () => {}, timeout: 100, resetTimeoutOnProgress: true }))
+      .resolves
+      .toMatchObject({ content: [{ type: 'text', text: 'built' }] })
+    await expect(connector.callTool('build', {}, { onProgress: () => {}, timeout: 100, resetTimeoutOnProgress: true, maxTotalTimeout: 100 }))
+      .rejects
+      .toThrow(/Maximum total timeout exceeded/)
+
+    await connector.disconnect()
+  })
+
+  it('dispatches progress from LangChain tools as custom events', async () => {
+    const connector = new BuildServerConnector(2)
+    await connector.connect()
+    await connector.initialize()
+    const [tool] = await new LangChainAdapter().createToolsFromConnectors([connector])
+
+    const handleCustomEvent = vi.fn()
+    expect(await tool.invoke({}, { callbacks: [{ handleCustomEvent }] })).toContain('built')
+    await vi.waitFor(() => expect(handleCustomEvent).toHaveBeenCalledTimes(2))
+    expect(handleCustomEvent).toHaveBeenCalledWith(
+      TOOL_PROGRESS_EVENT,
+      { tool: 'build', progress: 1, total: 2, message: 'step 1' },
+      expect.any(String),
+      [],
+      {},
+    )
+
+    await connector.disconnect()
+  })
+
+  it('yields on_tool_progress events from streamEvents', async () => {
+    const connector = new BuildServerConnector(2)
+    await connector.connect()
+    await connector.initialize()
+    const [tool] = await new LangChainAdapter().createToolsFromConnectors([connector]) as DynamicStructuredTool[]
+    const agent = new MCPAgent({ llm: new StaticChatModel({}), connectors: [connector] })
+
+    vi.spyOn(agent, 'initialize').mockResolvedValue(undefined)
+    vi.spyOn((agent as any).telemetry, 'trackAgentExecution').mockResolvedValue(undefined)
+    Object.defineProperty(agent, 'agentExecutor', {
+      get: () => ({
+        maxIterations: 1,
+        streamEvents: () => tool.streamEvents({}, { version: 'v2' }),
+      }),
+      configurable: true,
+    })
+
+    const events: StreamEvent[] = []
+    for await (const event of agent.streamEvents('build it', undefined, false)) {
+      events.push(event)
+    }
+
+    const progress = events.filter(e => e.event === ('on_tool_progress' as string))
+    expect(progress.map(e => [e.name, e.data])).toEqual([
+      ['build', { progress: 1, total: 2, message: 'step 1' }],
+      ['build', { progress: 2, total: 2, message: 'step 2' }],
+    ])
+    expect(events.some(e => e.event === 'on_custom_event')).toBe(false)
+    expect(events.at(-1)?.event).toBe('on_tool_end')
+
+    await connector.disconnect()
+  })
+})
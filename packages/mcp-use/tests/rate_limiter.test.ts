@@ -0,0 +1,125 @@
+/**
+ * Tests for per-server concurrency and rate limits
+ */
+
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { RateLimiter, validateServerConfig } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+/** Resolves when `release` is called. */
+function gate(): { promise: Promise<void>, release: () => void } {
+  let release!: () => void
+  const promise = new Promise<void>((resolve) => {
+    release = resolve
+  })
+  return { promise, release }
+}
+
+class SlowConnector extends LinkedConnector {
+  running = 0
+  maxRunning = 0
+
+  constructor() {
+    super({ serverName: 'slow', capabilities: { tools: {} }, rateLimit: { maxConcurrent: 2 } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      await this.work()
+      return { tools: [] }
+    })
+    this.server.setRequestHandler(CallToolRequestSchema, async () => {
+      await this.work()
+      return { content: [] }
+    })
+  }
+
+  private async work(): Promise<void> {
+    this.running++
+    this.maxRunning = Math.max(this.maxRunning, this.running)
+    await new Promise(resolve => setTimeout(resolve, 5))
+    this.running--
+  }
+}
+
+describe('rate limiter', () => {
+  it('queues requests beyond maxConcurrent in order', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 })
+    const gates = [gate(), gate(), gate()]
+    const started: number[] = []
+    const runs = gates.map((g, i) => limiter.run(async () => {
+      started.push(i)
+      await g.promise
+    }))
+
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(started).toEqual([0, 1])
+    expect(limiter.inFlight).toBe(2)
+    expect(limiter.waiting).toBe(1)
+
+    gates[1].release()
+    await runs[1]
+    await vi.waitFor(() => expect(started).toEqual([0, 1, 2]))
+    gates[0].release()
+    gates[2].release()
+    await Promise.all(runs)
+    expect(limiter.inFlight).toBe(0)
+  })
+
+  it('spaces requests to requestsPerSecond', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 50 })
+    const startedAt: number[] = []
+    await Promise.all([0, 1, 2].map(() => limiter.run(async () => {
+      startedAt.push(Date.now())
+    })))
+
+    expect(startedAt[2] - startedAt[0]).toBeGreaterThanOrEqual(38)
+  })
+
+  it('stops waiting when the signal is aborted', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 })
+    const busy = gate()
+    const first = limiter.run(() => busy.promise)
+    const controller = new AbortController()
+    let ran = false
+    const queued = limiter.run(async () => {
+      ran = true
+    }, controller.signal)
+
+    controller.abort(new Error('cancelled'))
+    await expect(queued).rejects.toThrow('cancelled')
+    expect(limiter.waiting).toBe(0)
+    busy.release()
+    await first
+    expect(ran).toBe(false)
+    expect(limiter.inFlight).toBe(0)
+  })
+
+  it('caps in-flight tool calls per connector', async () => {
+    const connector = new SlowConnector()
+    await connector.connect()
+    await connector.initialize()
+
+    await Promise.all(Array.from({ length: 6 }, () => connector.callTool('work', {})))
+    expect(connector.maxRunning).toBe(2)
+
+    await connector.disconnect()
+  })
+
+  it('counts requests the SDK client sends, such as tool list refreshes', async () => {
+    const connector = new SlowConnector()
+    await connector.connect()
+    await connector.initialize()
+
+    await Promise.all([
+      ...Array.from({ length: 3 }, () => connector.refreshTools()),
+      ...Array.from({ length: 3 }, () => connector.callTool('work', {})),
+    ])
+    expect(connector.maxRunning).toBe(2)
+
+    await connector.disconnect()
+  })
+
+  it('validates rateLimit in server config', () => {
+    expect(() => validateServerConfig('a', { command: 'a', rateLimit: { maxConcurrent: 4, requestsPerSecond: 0.5 } })).not.toThrow()
+    expect(() => validateServerConfig('a', { command: 'a', rateLimit: { requestsPerSecond: 0 } })).toThrow(/requestsPerSecond/)
+  })
+})
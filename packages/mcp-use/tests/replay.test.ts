@@ -0,0 +1,147 @@
+/**
+ * Tests for recording MCP traffic to cassettes and replaying it
+ */
+
+import type { Notification } from '@modelcontextprotocol/sdk/types.js'
+import type { BaseConnector } from '../index.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CassetteRecorder, LangChainAdapter, loadCassette, MCPClient, ReplayConnector } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+class WeatherConnector extends LinkedConnector {
+  calls = 0
+
+  constructor() {
+    super({ serverName: 'weather', capabilities: { tools: {}, logging: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{
+        name: 'forecast',
+        description: 'Forecast for a city',
+        inputSchema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      }],
+    }))
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      this.calls++
+      const city = request.params.arguments?.city
+      if (city === 'Atlantis') {
+        throw new McpError(ErrorCode.InvalidParams, 'Unknown city')
+      }
+      await this.server.sendLoggingMessage({ level: 'info', data: `forecast #${this.calls}` })
+      return { content: [{ type: 'text', text: `${city}: ${this.calls === 1 ? 'sunny' : 'rain'}` }] }
+    })
+  }
+}
+
+describe('record and replay', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'mcp-use-cassette-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  async function record(file: string): Promise<void> {
+    const connector = new WeatherConnector()
+    const recorder = new CassetteRecorder(file)
+    connector.use(recorder)
+    await connector.connect()
+    await connector.initialize()
+    await connector.callTool('forecast', { city: 'Paris' })
+    await connector.callTool('forecast', { city: 'Paris' })
+    await expect(connector.callTool('forecast', { city: 'Atlantis' })).rejects.toThrow()
+    await vi.waitFor(() => expect(recorder.entries.filter(e => e.type === 'notification')).toHaveLength(2))
+    await connector.disconnect()
+    recorder.save()
+  }
+
+  it('records requests, results, errors and notifications in order', async () => {
+    const file = path.join(dir, 'weather.json')
+    await record(file)
+
+    const { entries } = loadCassette(file)
+    expect(entries.map(e => `${e.type} ${e.method}`)).toEqual([
+      'request initialize',
+      'request tools/list',
+      'request tools/call',
+      'notification notifications/message',
+      'request tools/call',
+      'notification notifications/message',
+      'request tools/call',
+    ])
+    expect(entries.at(-1)).toMatchObject({ error: { code: ErrorCode.InvalidParams, message: 'MCP error -32602: Unknown city' } })
+    expect(JSON.parse(readFileSync(file, 'utf-8')).version).toBe(1)
+  })
+
+  it('replays the recorded session without the server', async () => {
+    const file = path.join(dir, 'weather.json')
+    await record(file)
+
+    const connector = new ReplayConnector(file)
+    const seen: Notification[] = []
+    connector.onNotification(notification => seen.push(notification))
+    await connector.connect()
+    await connector.initialize()
+
+    expect(connector.tools.map(t => t.name)).toEqual(['forecast'])
+    expect((await connector.callTool('forecast', { city: 'Paris' })).content).toEqual([{ type: 'text', text: 'Paris: sunny' }])
+    expect((await connector.callTool('forecast', { city: 'Paris' })).content).toEqual([{ type: 'text', text: 'Paris: rain' }])
+    // Once recorded answers are used up, the last one repeats
+    expect((await connector.callTool('forecast', { city: 'Paris' })).content).toEqual([{ type: 'text', text: 'Paris: rain' }])
+    await expect(connector.callTool('forecast', { city: 'Atlantis' })).rejects.toThrow('MCP error -32602: Unknown city')
+    await expect(connector.callTool('forecast', { city: 'Oslo' })).rejects.toThrow(/No recorded response for 'tools\/call'/)
+
+    await vi.waitFor(() => expect(seen.map(n => (n.params as any).data)).toEqual(['forecast #1', 'forecast #2', 'forecast #2']))
+    await connector.disconnect()
+  })
+
+  it('drives LangChain tools from a cassette', async () => {
+    const file = path.join(dir, 'weather.json')
+    await record(file)
+
+    const connector = new ReplayConnector(file)
+    await connector.connect()
+    await connector.initialize()
+    const [tool] = await new LangChainAdapter().createToolsFromConnectors([connector])
+    expect(await tool.invoke({ city: 'Paris' })).toContain('Paris: sunny')
+    await connector.disconnect()
+  })
+
+  it('records every client session and replays one server by name', async () => {
+    class TestClient extends MCPClient {
+      protected createConnectorFromConfig(_serverConfig: MCPServerConfig): BaseConnector {
+        return new WeatherConnector()
+      }
+    }
+    const recorder = new CassetteRecorder()
+    const client = new TestClient({ mcpServers: { north: { command: 'n' }, south: { command: 's' } } }, { middleware: [recorder] })
+    await client.createSession('north')
+    const south = await client.createSession('south')
+    await south.callTool('forecast', { city: 'Lima' })
+    await client.closeAllSessions()
+
+    const file = path.join(dir, 'all.json')
+    writeFileSync(file, JSON.stringify(recorder.toJSON()))
+    expect(new Set(recorder.entries.map(e => e.serverName))).toEqual(new Set(['north', 'south']))
+
+    const connector = new ReplayConnector(file, { serverName: 'south' })
+    await connector.connect()
+    expect((await connector.callTool('forecast', { city: 'Lima' })).content).toEqual([{ type: 'text', text: 'Lima: sunny' }])
+    expect(connector.publicIdentifier).toEqual({ type: 'replay', cassette: file, server: 'south' })
+    await connector.disconnect()
+  })
+
+  it('rejects files that are not cassettes', () => {
+    const file = path.join(dir, 'bad.json')
+    writeFileSync(file, '{"entries": []}')
+    expect(() => loadCassette(file)).toThrow(/not a version 1 cassette/)
+    expect(() => loadCassette(path.join(dir, 'missing.json'))).toThrow(/Failed to read cassette/)
+  })
+})
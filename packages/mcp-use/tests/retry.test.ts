@@ -0,0 +1,185 @@
+/**
+ * Tests for retrying transient MCP failures
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js'
+import type { BaseConnector } from '../index.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import type { ConnectorInitOptions } from '../src/connectors/base.js'
+import { StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  isRetryableError,
+  MCPClient,
+  parseRetryAfter,
+  RetryPolicy,
+  TransientHttpError,
+  validateServerConfig,
+} from '../index.js'
+import { transientStatusFetch } from '../src/retry.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+const TOOLS: Tool[] = [
+  { name: 'search', inputSchema: { type: 'object' }, annotations: { readOnlyHint: true } },
+  { name: 'set_status', inputSchema: { type: 'object' }, annotations: { idempotentHint: true } },
+  { name: 'create_note', inputSchema: { type: 'object' } },
+  { name: 'charge_card', inputSchema: { type: 'object' }, annotations: { idempotentHint: false } },
+]
+
+const FAST_RETRY = { maxAttempts: 3, initialDelayMs: 1, jitter: false }
+
+/** Server whose tool calls fail with `failures` errors before succeeding. */
+class FlakyConnector extends LinkedConnector {
+  attempts = 0
+
+  constructor(failures: Error[], opts: ConnectorInitOptions = {}) {
+    super({ ...opts, serverName: 'flaky', capabilities: { tools: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }))
+    this.server.setRequestHandler(CallToolRequestSchema, async () => {
+      const failure = failures[this.attempts++]
+      if (failure) {
+        throw failure
+      }
+      return { content: [{ type: 'text', text: `ok after ${this.attempts}` }] }
+    })
+  }
+}
+
+async function connected(failures: Error[], opts: ConnectorInitOptions = { retry: FAST_RETRY }): Promise<FlakyConnector> {
+  const connector = new FlakyConnector(failures, opts)
+  await connector.connect()
+  await connector.initialize()
+  return connector
+}
+
+function internalError(): McpError {
+  return new McpError(ErrorCode.InternalError, 'backend hiccup')
+}
+
+describe('retry policy', () => {
+  it('classifies transient errors', () => {
+    const reset = new TypeError('fetch failed', { cause: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) })
+    expect(isRetryableError(reset)).toBe(true)
+    expect(isRetryableError(new TransientHttpError(503, 'unavailable'))).toBe(true)
+    expect(isRetryableError(new McpError(ErrorCode.InternalError, 'boom'))).toBe(true)
+    expect(isRetryableError(new McpError(ErrorCode.InvalidParams, 'bad'))).toBe(false)
+    expect(isRetryableError(new McpError(ErrorCode.RequestTimeout, 'slow'))).toBe(false)
+    expect(isRetryableError(new Error('Tool not found'))).toBe(false)
+  })
+
+  it('parses Retry-After in seconds and as an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+    expect(parseRetryAfter('3', now)).toBe(3000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10_000)
+    expect(parseRetryAfter('soon', now)).toBeUndefined()
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+  })
+
+  it('backs off exponentially and honours Retry-After up to maxDelayMs', () => {
+    const policy = new RetryPolicy({ maxAttempts: 5, initialDelayMs: 100, maxDelayMs: 1000, jitter: false })
+    const error = internalError()
+    expect([1, 2, 3, 4].map(attempt => policy.delayFor(attempt, error))).toEqual([100, 200, 400, 800])
+    expect(policy.delayFor(5, error)).toBeNull()
+    expect(policy.delayFor(1, new TransientHttpError(429, 'slow down', 700))).toBe(700)
+    expect(policy.delayFor(1, new TransientHttpError(429, 'slow down', 5000))).toBeNull()
+
+    const jittered = new RetryPolicy({ initialDelayMs: 100 }).delayFor(1, error)!
+    expect(jittered).toBeGreaterThanOrEqual(50)
+    expect(jittered).toBeLessThanOrEqual(100)
+  })
+
+  it('raises transient HTTP statuses from POST responses with their Retry-After', async () => {
+    const baseFetch = vi.fn(async () => new Response('busy', { status: 503, headers: { 'Retry-After': '2' } }))
+    const wrapped = transientStatusFetch(baseFetch)
+
+    await expect(wrapped('http://localhost/mcp', { method: 'POST' })).rejects.toMatchObject({ status: 503, code: 503, retryAfterMs: 2000 })
+    await expect(wrapped('http://localhost/mcp', { method: 'POST' })).rejects.toBeInstanceOf(StreamableHTTPError)
+    expect((await wrapped('http://localhost/mcp', { method: 'GET' })).status).toBe(503)
+  })
+
+  it('retries tool calls until they succeed', async () => {
+    const connector = await connected([internalError(), internalError()])
+
+    const result = await connector.callTool('search', {})
+    expect(result.content).toEqual([{ type: 'text', text: 'ok after 3' }])
+
+    await connector.disconnect()
+  })
+
+  it('gives up after maxAttempts and on errors that are not transient', async () => {
+    const exhausted = await connected([internalError(), internalError(), internalError()])
+    await expect(exhausted.callTool('search', {})).rejects.toThrow(/backend hiccup/)
+    expect(exhausted.attempts).toBe(3)
+    await exhausted.disconnect()
+
+    const invalid = await connected([new McpError(ErrorCode.InvalidParams, 'bad query')])
+    await expect(invalid.callTool('search', {})).rejects.toThrow(/bad query/)
+    expect(invalid.attempts).toBe(1)
+    await invalid.disconnect()
+  })
+
+  it('only retries tools annotated read-only or idempotent unless configured', async () => {
+    const idempotent = await connected([internalError()])
+    await expect(idempotent.callTool('set_status', {})).resolves.toBeDefined()
+    expect(idempotent.attempts).toBe(2)
+    await idempotent.disconnect()
+
+    for (const name of ['create_note', 'charge_card']) {
+      const unsafe = await connected([internalError(), internalError()])
+      await expect(unsafe.callTool(name, {})).rejects.toThrow()
+      await expect(unsafe.request('tools/call', { name, arguments: {} })).rejects.toThrow()
+      expect(unsafe.attempts).toBe(2)
+      await unsafe.disconnect()
+    }
+
+    const optedIn = await connected([internalError()], { retry: { ...FAST_RETRY, retryTools: ['create_note'] } })
+    await expect(optedIn.callTool('create_note', {})).resolves.toBeDefined()
+    expect(optedIn.attempts).toBe(2)
+    await optedIn.disconnect()
+  })
+
+  it('does not retry tools that opt out', async () => {
+
+    const excluded = await connected([internalError()], { retry: { ...FAST_RETRY, excludeTools: ['search'] } })
+    await expect(excluded.callTool('search', {})).rejects.toThrow()
+    expect(excluded.attempts).toBe(1)
+    await excluded.disconnect()
+
+    const perCall = await connected([internalError()])
+    await expect(perCall.callTool('search', {}, { retry: false })).rejects.toThrow()
+    expect(perCall.attempts).toBe(1)
+    await perCall.disconnect()
+  })
+
+  it('retries raw requests', async () => {
+    const connector = await connected([internalError()])
+
+    const result = await connector.request('tools/call', { name: 'search', arguments: {} })
+    expect(result.content).toEqual([{ type: 'text', text: 'ok after 2' }])
+
+    await connector.disconnect()
+  })
+
+  it('reads per-server policies from config, with a client-wide default', async () => {
+    expect(() => validateServerConfig('a', { command: 'a', retry: { maxAttempts: 5, excludeTools: ['pay'], retryTools: ['tag'] } })).not.toThrow()
+    expect(() => validateServerConfig('a', { command: 'a', retry: { maxAttempts: 0 } })).toThrow(/maxAttempts/)
+    expect(() => validateServerConfig('a', { command: 'a', retry: { retries: 2 } } as any)).toThrow(/retries/)
+
+    class TestClient extends MCPClient {
+      protected createConnectorFromConfig(serverConfig: MCPServerConfig): BaseConnector {
+        return new FlakyConnector([internalError()], { retry: serverConfig.retry || undefined })
+      }
+    }
+    const client = new TestClient(
+      { mcpServers: { inherits: { command: 'a' }, disabled: { command: 'b', retry: false } } },
+      { retry: FAST_RETRY },
+    )
+    const inherits = await client.createSession('inherits')
+    await expect(inherits.callTool('search', {})).resolves.toBeDefined()
+    const disabled = await client.createSession('disabled')
+    await expect(disabled.callTool('search', {})).rejects.toThrow(/backend hiccup/)
+
+    await client.closeAllSessions()
+  })
+})
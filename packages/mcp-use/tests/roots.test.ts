@@ -0,0 +1,59 @@
+/**
+ * Tests for the roots capability
+ */
+
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { RootsListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { MCPClient, MCPSession } from '../index.js'
+import { createConnectorFromConfig } from '../src/config.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+describe('roots', () => {
+  it('accepts paths and URIs in server configs', () => {
+    const client = new MCPClient({
+      mcpServers: {
+        fs: { command: 'server-filesystem', roots: ['./projects', { uri: 'file:///data', name: 'Data' }, 'file:///tmp'] },
+      },
+    })
+
+    const connector = createConnectorFromConfig(client.getServerConfig('fs')!)
+    expect(connector.getRoots()).toEqual([
+      { uri: pathToFileURL(resolve('./projects')).href, name: 'projects' },
+      { uri: 'file:///data', name: 'Data' },
+      { uri: 'file:///tmp' },
+    ])
+    expect(createConnectorFromConfig({ command: 'server' }).getRoots()).toBeNull()
+    expect(() => new MCPClient({ mcpServers: { fs: { command: 'server', roots: [{ path: '/x' }] } as any } }))
+      .toThrow(/mcpServers\.fs\.roots\[0\]/)
+  })
+
+  it('answers roots/list and notifies the server when roots change', async () => {
+    const connector = new LinkedConnector({ roots: [{ uri: 'file:///workspace', name: 'workspace' }] })
+    const session = new MCPSession(connector)
+    await session.connect()
+
+    expect(connector.server.getClientCapabilities()?.roots).toEqual({ listChanged: true })
+    expect(await connector.server.listRoots()).toEqual({ roots: [{ uri: 'file:///workspace', name: 'workspace' }] })
+
+    const listChanged = vi.fn()
+    connector.server.setNotificationHandler(RootsListChangedNotificationSchema, listChanged)
+    await session.setRoots([{ uri: 'file:///other' }])
+
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(1))
+    expect(await connector.server.listRoots()).toEqual({ roots: [{ uri: 'file:///other' }] })
+    expect(session.getRoots()).toEqual([{ uri: 'file:///other' }])
+
+    await session.disconnect()
+  })
+
+  it('does not advertise roots when none are configured', async () => {
+    const connector = new LinkedConnector()
+    await connector.connect()
+
+    expect(connector.server.getClientCapabilities()?.roots).toBeUndefined()
+
+    await connector.disconnect()
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Tests for server-initiated sampling requests
+ */
+
+import type { BaseChatModelParams } from '@langchain/core/language_models/chat_models'
+import type { BaseMessage } from '@langchain/core/messages'
+import type { SamplingRequest } from '../index.js'
+import { ChatAnthropic } from '@langchain/anthropic'
+import { SimpleChatModel } from '@langchain/core/language_models/chat_models'
+import { AIMessage } from '@langchain/core/messages'
+import { ChatOpenAI } from '@langchain/openai'
+import { describe, expect, it, vi } from 'vitest'
+import { createLangChainSamplingHandler } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+interface EchoCall {
+  model: EchoChatModel
+  messages: BaseMessage[]
+  maxTokens: number
+  temperature: number
+}
+
+interface EchoChatModelFields extends BaseChatModelParams {
+  reply: string
+  maxTokens?: number
+  temperature?: number
+  calls?: EchoCall[]
+}
+
+class EchoChatModel extends SimpleChatModel {
+  readonly reply: string
+  maxTokens: number
+  temperature: number
+  readonly calls: EchoCall[]
+
+  constructor(fields: EchoChatModelFields) {
+    // Copies made for a token limit share `calls` through the constructor fields
+    const withCalls = { ...fields, calls: fields.calls ?? [] }
+    super(withCalls)
+    this.reply = fields.reply
+    this.maxTokens = fields.maxTokens ?? 4096
+    this.temperature = fields.temperature ?? 1
+    this.calls = withCalls.calls
+  }
+
+  _llmType(): string {
+    return 'echo'
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    this.calls.push({ model: this, messages, maxTokens: this.maxTokens, temperature: this.temperature })
+    return this.reply
+  }
+}
+
+function request(overrides: Partial<SamplingRequest> = {}): SamplingRequest {
+  return {
+    messages: [{ role: 'user', content: { type: 'text', text: 'Summarize this' } }],
+    maxTokens: 10_000,
+    ...overrides,
+  }
+}
+
+describe('langChain sampling handler', () => {
+  it('maps model hints, clamps maxTokens and converts messages', async () => {
+    const defaultModel = new EchoChatModel({ reply: 'default' })
+    const haiku = new EchoChatModel({ reply: 'short summary' })
+    const handler = createLangChainSamplingHandler(defaultModel, {
+      models: { 'claude-3-haiku': haiku },
+      maxTokens: 500,
+    })
+
+    const result = await handler(request({
+      systemPrompt: 'Be brief',
+      modelPreferences: { hints: [{ name: 'gpt-5' }, { name: 'haiku' }] },
+    }), {})
+
+    expect(result).toEqual({
+      role: 'assistant',
+      content: { type: 'text', text: 'short summary' },
+      model: 'claude-3-haiku',
+      stopReason: 'endTurn',
+    })
+    expect(haiku.calls).toHaveLength(1)
+    expect(haiku.calls[0].maxTokens).toBe(500)
+    expect(haiku.calls[0].messages.map(m => [m._getType(), m.content])).toEqual([
+      ['system', 'Be brief'],
+      ['human', 'Summarize this'],
+    ])
+    expect(haiku.maxTokens).toBe(4096)
+    expect(defaultModel.calls).toHaveLength(0)
+  })
+
+  it('copies the model only when the request changes its settings', async () => {
+    const model = new EchoChatModel({ reply: 'ok', maxTokens: 500 })
+    const handler = createLangChainSamplingHandler(model)
+
+    await handler(request({ maxTokens: 500 }), {})
+    await handler(request({ maxTokens: 500, temperature: 0.2 }), {})
+
+    expect(model.calls.map(({ maxTokens, temperature }) => ({ maxTokens, temperature }))).toEqual([
+      { maxTokens: 500, temperature: 1 },
+      { maxTokens: 500, temperature: 0.2 },
+    ])
+    expect(model.calls[0].model).toBe(model)
+    expect(model.calls[1].model).not.toBe(model)
+    expect(model.temperature).toBe(1)
+  })
+
+  it('passes the token limit to OpenAI and Anthropic models', async () => {
+    const models = [
+      new ChatOpenAI({ model: 'gpt-4o-mini', apiKey: 'test', maxTokens: 4096 }),
+      new ChatAnthropic({ model: 'claude-3-5-haiku-latest', apiKey: 'test', maxTokens: 4096 }),
+    ]
+    for (const model of models) {
+      let params: { max_tokens?: number } = {}
+      const generate = vi.spyOn(Object.getPrototypeOf(model), '_generate').mockImplementation(async function (this: typeof model) {
+        params = this.invocationParams({}) as { max_tokens?: number }
+        return { generations: [{ text: 'ok', message: new AIMessage('ok') }] }
+      })
+
+      await createLangChainSamplingHandler(model, { maxTokens: 500 })(request(), {})
+      expect(params.max_tokens).toBe(500)
+      expect(model.maxTokens).toBe(4096)
+      generate.mockRestore()
+    }
+  })
+
+  it('rejects requests the approval hook declines', async () => {
+    const model = new EchoChatModel({ reply: 'never' })
+    const approve = vi.fn().mockResolvedValue(false)
+    const handler = createLangChainSamplingHandler(model, { approve })
+
+    await expect(handler(request(), { serverName: 'docs' })).rejects.toThrow(/rejected/)
+    expect(approve).toHaveBeenCalledWith(request(), { serverName: 'docs' })
+    expect(model.calls).toHaveLength(0)
+  })
+})
+
+describe('connector sampling', () => {
+  it('advertises sampling and answers server requests', async () => {
+    const connector = new LinkedConnector({
+      samplingHandler: createLangChainSamplingHandler(new EchoChatModel({ reply: 'hello from the client' })),
+    })
+    await connector.connect()
+
+    expect(connector.server.getClientCapabilities()?.sampling).toEqual({})
+    const result = await connector.server.createMessage(request())
+    expect(result.content).toEqual({ type: 'text', text: 'hello from the client' })
+
+    await connector.disconnect()
+  })
+
+  it('does not advertise sampling without a handler', async () => {
+    const connector = new LinkedConnector()
+    await connector.connect()
+
+    expect(connector.server.getClientCapabilities()?.sampling).toBeUndefined()
+    await expect(connector.server.createMessage(request())).rejects.toThrow(/Method not found/)
+
+    await connector.disconnect()
+  })
+})
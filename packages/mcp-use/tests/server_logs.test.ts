@@ -0,0 +1,103 @@
+/**
+ * Tests for server log messages (notifications/message and logging/setLevel)
+ */
+
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js'
+import type { BaseConnector } from '../index.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import type { ConnectorInitOptions } from '../src/connectors/base.js'
+import { Writable } from 'node:stream'
+import { ListToolsRequestSchema, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { transports } from 'winston'
+import { describe, expect, it, vi } from 'vitest'
+import { Logger, MCPClient, validateServerConfig } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+class LoggingServerConnector extends LinkedConnector {
+  readonly levels: LoggingLevel[] = []
+
+  constructor(opts: ConnectorInitOptions = {}) {
+    super({ ...opts, serverName: 'logging-server', capabilities: { tools: {}, logging: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }))
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.levels.push(request.params.level)
+      return {}
+    })
+  }
+}
+
+class TestClient extends MCPClient {
+  protected createConnectorFromConfig(serverConfig: MCPServerConfig): BaseConnector {
+    return new LoggingServerConnector({ logLevel: 'logLevel' in serverConfig ? serverConfig.logLevel : undefined })
+  }
+}
+
+function connectorOf(client: MCPClient, serverName: string): LoggingServerConnector {
+  return client.getSession(serverName)!.connector as LoggingServerConnector
+}
+
+describe('server logs', () => {
+  it('validates logLevel in server config', () => {
+    expect(() => validateServerConfig('a', { command: 'a', logLevel: 'warning' })).not.toThrow()
+    expect(() => validateServerConfig('a', { command: 'a', logLevel: 'verbose' } as any)).toThrow(/logLevel/)
+  })
+
+  it('sends the configured level on initialize and applies level changes', async () => {
+    const client = new TestClient({ mcpServers: { db: { command: 'db', logLevel: 'warning' } } })
+    await client.createSession('db')
+    expect(connectorOf(client, 'db').levels).toEqual(['warning'])
+
+    await client.setServerLogLevel('db', 'debug')
+    expect(connectorOf(client, 'db').levels).toEqual(['warning', 'debug'])
+
+    // The override also applies to sessions created later
+    await client.closeSession('db')
+    await client.createSession('db')
+    expect(connectorOf(client, 'db').levels).toEqual(['debug'])
+
+    await expect(client.setServerLogLevel('missing', 'info')).rejects.toThrow(/not found/)
+    await client.closeAllSessions()
+  })
+
+  it('routes server logs to the callback or to a logger labelled with the server name', async () => {
+    const onServerLog = vi.fn()
+    const client = new TestClient({ mcpServers: { db: { command: 'db' } } }, { onServerLog })
+    await client.createSession('db')
+    await connectorOf(client, 'db').server.sendLoggingMessage({ level: 'error', logger: 'pool', data: { lost: 2 } })
+    await vi.waitFor(() => expect(onServerLog).toHaveBeenCalledWith({ serverName: 'db', level: 'error', logger: 'pool', data: { lost: 2 } }))
+    await client.closeAllSessions()
+
+    const warn = vi.fn()
+    const child = vi.spyOn(Logger, 'child').mockReturnValue({ warn } as any)
+    const defaultClient = new TestClient({ mcpServers: { db: { command: 'db' } } })
+    await defaultClient.createSession('db')
+    await connectorOf(defaultClient, 'db').server.sendLoggingMessage({ level: 'warning', logger: 'pool', data: 'slow query' })
+    await vi.waitFor(() => expect(warn).toHaveBeenCalledWith('pool: slow query'))
+    expect(child).toHaveBeenCalledWith('db')
+    child.mockRestore()
+    await defaultClient.closeAllSessions()
+  })
+
+  it('labels child logger output with its own name', () => {
+    const lines: string[] = []
+    const transport = new transports.Stream({
+      stream: new Writable({
+        write(chunk, _encoding, callback) {
+          lines.push(String(chunk))
+          callback()
+        },
+      }),
+    })
+    const root = Logger.get() as any
+    root.add(transport)
+    try {
+      Logger.child('db').error('connection lost')
+      Logger.get().error('agent failed')
+    }
+    finally {
+      root.remove(transport)
+    }
+    expect(lines[0]).toMatch(/\[db\].*connection lost/)
+    expect(lines[1]).toMatch(/\[mcp-use\].*agent failed/)
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Tests for MCPSession health checks and automatic reconnection
+ */
+
+import type { SessionState } from '../index.js'
+import { describe, expect, it, vi } from 'vitest'
+import { BaseConnector, MCPSession } from '../index.js'
+
+class FlakyConnector extends BaseConnector {
+  connectCalls = 0
+  failConnects = 0
+  pingError: Error | null = null
+  serverTools: string[] = ['first']
+
+  async connect(): Promise<void> {
+    this.connectCalls++
+    if (this.failConnects > 0) {
+      this.failConnects--
+      throw new Error('ECONNREFUSED')
+    }
+    this.connected = true
+    this.client = {} as any
+  }
+
+  async initialize(): Promise<any> {
+    this.toolsCache = this.serverTools.map(name => ({ name, inputSchema: { type: 'object' } }))
+    return {}
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false
+    this.client = null
+    this.toolsCache = null
+  }
+
+  async ping(): Promise<void> {
+    if (this.pingError) {
+      throw this.pingError
+    }
+  }
+
+  /** Simulate the server process exiting. */
+  drop(): void {
+    this.notifyConnectionClosed()
+  }
+
+  get publicIdentifier(): Record<string, string> {
+    return { type: 'flaky' }
+  }
+}
+
+describe('mCPSession health', () => {
+  it('reconnects after the transport closes and refreshes the tools cache', async () => {
+    const connector = new FlakyConnector()
+    const session = new MCPSession(connector, true, { initialReconnectDelayMs: 1 })
+    await session.initialize()
+    expect(session.state).toBe('connected')
+
+    const states: SessionState[] = []
+    session.on('stateChanged', ({ state }) => states.push(state))
+    const reconnected = vi.fn()
+    session.on('reconnected', reconnected)
+
+    connector.serverTools = ['first', 'second']
+    connector.failConnects = 2
+    connector.drop()
+
+    await vi.waitFor(() => expect(reconnected).toHaveBeenCalledWith({ attempts: 3 }))
+    expect(states).toEqual(['reconnecting', 'connected'])
+    expect(session.state).toBe('connected')
+    expect(connector.tools.map(t => t.name)).toEqual(['first', 'second'])
+  })
+
+  it('marks the session failed once reconnect attempts are exhausted', async () => {
+    const connector = new FlakyConnector()
+    const session = new MCPSession(connector, true, { maxReconnectAttempts: 2, initialReconnectDelayMs: 1 })
+    await session.initialize()
+
+    connector.failConnects = 5
+    await expect(session.reconnect()).rejects.toThrow('ECONNREFUSED')
+    expect(session.state).toBe('failed')
+    expect(connector.connectCalls).toBe(3)
+  })
+
+  it('treats a failed ping as a lost connection', async () => {
+    const connector = new FlakyConnector()
+    const session = new MCPSession(connector, true, { autoReconnect: false })
+    await session.initialize()
+
+    expect(await session.checkHealth()).toBe(true)
+
+    const healthCheckFailed = vi.fn()
+    session.on('healthCheckFailed', healthCheckFailed)
+    connector.pingError = new Error('pong missing')
+    expect(await session.checkHealth()).toBe(false)
+    expect(healthCheckFailed).toHaveBeenCalledWith({ error: connector.pingError })
+    expect(session.state).toBe('disconnected')
+  })
+
+  it('does not reconnect after an intentional disconnect', async () => {
+    const connector = new FlakyConnector()
+    const session = new MCPSession(connector)
+    await session.initialize()
+    await session.disconnect()
+
+    connector.drop()
+    expect(session.state).toBe('disconnected')
+    expect(connector.connectCalls).toBe(1)
+  })
+})
@@ -21,6 +21,7 @@ vi.mock('../src/client.js', () => ({
   MCPClient: vi.fn().mockImplementation(() => ({
     getAllActiveSessions: vi.fn().mockResolvedValue({}),
     createAllSessions: vi.fn().mockResolvedValue({}),
+    createAllSessionsWithReport: vi.fn().mockResolvedValue({ sessions: {}, connected: [], failed: [] }),
     closeAllSessions: vi.fn().mockResolvedValue(undefined),
   })),
 }))
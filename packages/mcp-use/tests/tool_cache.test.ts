@@ -0,0 +1,157 @@
+/**
+ * Tests for the tool result cache
+ */
+
+import type { BaseConnector } from '../index.js'
+import type { MCPServerConfig } from '../src/config/schema.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  canonicalizeArguments,
+  InMemoryToolCacheStore,
+  MCPClient,
+  ToolResultCache,
+} from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+const TOOLS = [
+  { name: 'lookup', inputSchema: { type: 'object' as const }, annotations: { readOnlyHint: true } },
+  { name: 'upsert', inputSchema: { type: 'object' as const }, annotations: { idempotentHint: true } },
+  { name: 'append', inputSchema: { type: 'object' as const } },
+]
+
+class CountingConnector extends LinkedConnector {
+  readonly calls: string[] = []
+
+  constructor() {
+    super({ serverName: 'counting', capabilities: { tools: {} } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }))
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      this.calls.push(request.params.name)
+      const failed = request.params.arguments?.fail === true
+      return { content: [{ type: 'text', text: `${request.params.name} #${this.calls.length}` }], isError: failed }
+    })
+  }
+}
+
+class TestClient extends MCPClient {
+  protected createConnectorFromConfig(_serverConfig: MCPServerConfig): BaseConnector {
+    return new CountingConnector()
+  }
+}
+
+async function connected(cache: ToolResultCache): Promise<CountingConnector> {
+  const connector = new CountingConnector()
+  connector.setToolCache(cache)
+  await connector.connect()
+  await connector.initialize()
+  return connector
+}
+
+function text(result: any): string {
+  return result.content[0].text
+}
+
+describe('tool result cache', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('caches read-only and idempotent tools but not others', async () => {
+    const connector = await connected(new ToolResultCache())
+
+    expect(text(await connector.callTool('lookup', { id: 1 }))).toBe('lookup #1')
+    expect(text(await connector.callTool('lookup', { id: 1 }))).toBe('lookup #1')
+    expect(text(await connector.callTool('lookup', { id: 2 }))).toBe('lookup #2')
+    expect(text(await connector.callTool('upsert', {}))).toBe('upsert #3')
+    expect(text(await connector.callTool('upsert', {}))).toBe('upsert #3')
+    expect(text(await connector.callTool('append', {}))).toBe('append #4')
+    expect(text(await connector.callTool('append', {}))).toBe('append #5')
+
+    await connector.disconnect()
+  })
+
+  it('treats arguments that differ only in key order as the same call', async () => {
+    expect(canonicalizeArguments({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: 3 } }))
+      .toBe('{"a":{"c":3,"d":[2,{"e":0,"f":1}]},"b":1}')
+
+    const connector = await connected(new ToolResultCache())
+    await connector.callTool('lookup', { table: 'users', id: 7 })
+    await connector.callTool('lookup', { id: 7, table: 'users' })
+    expect(connector.calls).toEqual(['lookup'])
+
+    await connector.disconnect()
+  })
+
+  it('bypasses the cache on request and never caches errors', async () => {
+    const connector = await connected(new ToolResultCache())
+
+    await connector.callTool('lookup', {})
+    expect(text(await connector.callTool('lookup', {}, { cache: false }))).toBe('lookup #2')
+    await connector.callTool('lookup', { fail: true })
+    await connector.callTool('lookup', { fail: true })
+    expect(connector.calls).toHaveLength(4)
+
+    await connector.disconnect()
+  })
+
+  it('hands out copies of cached results', async () => {
+    const connector = await connected(new ToolResultCache())
+
+    const first = await connector.callTool('lookup', {})
+    ;(first.content[0] as { text: string }).text = 'changed by caller'
+    const second = await connector.callTool('lookup', {})
+    expect(text(second)).toBe('lookup #1')
+    second.content.pop()
+    expect(text(await connector.callTool('lookup', {}))).toBe('lookup #1')
+    expect(connector.calls).toHaveLength(1)
+
+    await connector.disconnect()
+  })
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const connector = await connected(new ToolResultCache({ ttlMs: 1000 }))
+
+    await connector.callTool('lookup', {})
+    vi.advanceTimersByTime(999)
+    await connector.callTool('lookup', {})
+    vi.advanceTimersByTime(1)
+    await connector.callTool('lookup', {})
+    expect(connector.calls).toHaveLength(2)
+
+    await connector.disconnect()
+  })
+
+  it('evicts the least recently used entry from the in-memory store', async () => {
+    const store = new InMemoryToolCacheStore(2)
+    const entry = { result: { content: [] }, expiresAt: Infinity }
+    await store.set('a', entry)
+    await store.set('b', entry)
+    await store.get('a')
+    await store.set('c', entry)
+
+    expect(store.size).toBe(2)
+    expect(await store.get('b')).toBeUndefined()
+    expect(await store.get('a')).toBe(entry)
+  })
+
+  it('shares one cache between client sessions, keyed by server name', async () => {
+    const client = new TestClient({ mcpServers: { one: { command: 'one' }, two: { command: 'two' } } }, { toolCache: true })
+    expect(client.getToolCache()).toBeInstanceOf(ToolResultCache)
+    expect(new TestClient({}).getToolCache()).toBeNull()
+
+    const one = await client.createSession('one')
+    const two = await client.createSession('two')
+    await one.callTool('lookup', {})
+    await two.callTool('lookup', {})
+    expect((two.connector as CountingConnector).calls).toEqual(['lookup'])
+
+    await client.closeSession('one')
+    const reopened = await client.createSession('one')
+    await reopened.callTool('lookup', {})
+    expect((reopened.connector as CountingConnector).calls).toEqual([])
+
+    await client.closeAllSessions()
+  })
+})
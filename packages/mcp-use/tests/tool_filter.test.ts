@@ -0,0 +1,110 @@
+/**
+ * Tests for per-server tool filters
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { describe, expect, it } from 'vitest'
+import { globToRegExp, LangChainAdapter, MCPClient, ToolFilter, validateServerConfig } from '../index.js'
+
+function createRepoServer(calls: string[]): McpServer {
+  const server = new McpServer({ name: 'repo', version: '1.0.0' })
+  const tool = (name: string, annotations: Record<string, boolean>) => {
+    server.registerTool(name, { description: name, annotations }, async () => {
+      calls.push(name)
+      return { content: [{ type: 'text', text: `${name} done` }] }
+    })
+  }
+  tool('search_issues', { readOnlyHint: true })
+  tool('search_code', { readOnlyHint: true })
+  tool('create_issue', {})
+  tool('delete_repo', { destructiveHint: true })
+  return server
+}
+
+describe('tool filters', () => {
+  it('matches names with wildcards and tools by declared annotations', () => {
+    expect(globToRegExp('search_*').test('search_code')).toBe(true)
+    expect(globToRegExp('v?.get').test('v1.get')).toBe(true)
+    expect(globToRegExp('v?.get').test('v1xget')).toBe(false)
+
+    const filter = new ToolFilter({ disabledTools: [{ destructiveHint: true }] })
+    expect(filter.isAllowed('drop', { name: 'drop', inputSchema: { type: 'object' }, annotations: { destructiveHint: true } })).toBe(false)
+    // Undeclared hints do not match, even where the protocol default would
+    expect(filter.isAllowed('write', { name: 'write', inputSchema: { type: 'object' } })).toBe(true)
+  })
+
+  it('hides disabled tools from adapters and rejects calls to them', async () => {
+    const calls: string[] = []
+    const client = new MCPClient({
+      mcpServers: {
+        repo: { inProcess: createRepoServer(calls), disabledTools: [{ destructiveHint: true }, 'create_*'] },
+      },
+    })
+    const session = await client.createSession('repo')
+
+    const tools = await new LangChainAdapter().createToolsFromClient(client)
+    expect(tools.map(t => t.name)).toEqual(['search_issues', 'search_code'])
+
+    await expect(session.callTool('delete_repo', {})).rejects.toThrow(`Tool 'delete_repo' is disabled for this server`)
+    await expect(session.connector.request('tools/call', { name: 'create_issue', arguments: {} }))
+      .rejects
+      .toThrow(`Tool 'create_issue' is disabled for this server`)
+    expect((await session.callTool('search_code', {})).content).toEqual([{ type: 'text', text: 'search_code done' }])
+    expect(calls).toEqual(['search_code'])
+    await client.closeAllSessions()
+  })
+
+  it('checks annotation patterns for calls made before initialize()', async () => {
+    const calls: string[] = []
+    const client = new MCPClient({
+      mcpServers: {
+        repo: { inProcess: createRepoServer(calls), disabledTools: [{ destructiveHint: true }] },
+      },
+    })
+    const session = await client.createSession('repo', false)
+    await session.connect()
+
+    await expect(session.callTool('delete_repo', {})).rejects.toThrow(`Tool 'delete_repo' is disabled for this server`)
+    await expect(session.connector.request('tools/call', { name: 'missing', arguments: {} }))
+      .rejects
+      .toThrow(`Tool 'missing' is not listed by the server`)
+    expect((await session.callTool('create_issue', {})).content).toEqual([{ type: 'text', text: 'create_issue done' }])
+    expect(calls).toEqual(['create_issue'])
+    await client.closeAllSessions()
+  })
+
+  it('applies allowed tools before disabled tools', async () => {
+    const client = new MCPClient({
+      mcpServers: {
+        repo: { inProcess: createRepoServer([]), allowedTools: [{ readOnlyHint: true }], disabledTools: ['search_code'] },
+      },
+    })
+    await client.createSession('repo')
+
+    const tools = await new LangChainAdapter().createToolsFromClient(client)
+    expect(tools.map(t => t.name)).toEqual(['search_issues'])
+    await client.closeAllSessions()
+  })
+
+  it('rebuilds adapter tools when the filter changes', async () => {
+    const client = new MCPClient({ mcpServers: { repo: { inProcess: createRepoServer([]) } } })
+    const { connector } = await client.createSession('repo')
+    const adapter = new LangChainAdapter()
+
+    expect(await adapter.createToolsFromClient(client)).toHaveLength(4)
+    connector.setToolFilter({ allowedTools: ['search_issues'] })
+    expect((await adapter.createToolsFromClient(client)).map(t => t.name)).toEqual(['search_issues'])
+    connector.setToolFilter(null)
+    expect(await adapter.createToolsFromClient(client)).toHaveLength(4)
+    await client.closeAllSessions()
+  })
+
+  it('validates tool patterns in config', () => {
+    expect(() => validateServerConfig('repo', { command: 'repo', disabledTools: [{}] }))
+      .toThrow(/mcpServers\.repo\.disabledTools\[0\]: Expected at least one annotation hint/)
+    expect(() => validateServerConfig('repo', { command: 'repo', allowedTools: [{ destructive: true }] }))
+      .toThrow(/mcpServers\.repo\.allowedTools\[0\]/)
+    expect(validateServerConfig('repo', { url: 'http://localhost/mcp', allowedTools: ['get_*', { readOnlyHint: true }] }))
+      .toBeTruthy()
+  })
+})
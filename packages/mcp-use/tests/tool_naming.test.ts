@@ -0,0 +1,110 @@
+/**
+ * Tests for naming tools of several servers
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { InMemoryConnector, LangChainAdapter, logger, MCPClient } from '../index.js'
+import { generateToolDescriptions } from '../src/agents/prompts/system_prompt_builder.js'
+
+/** Server with the given tools, recording the names of called tools in `calls`. */
+function createToolsServer(name: string, toolNames: string[], calls: string[] = []): Server {
+  const server = new Server({ name, version: '1.0.0' }, { capabilities: { tools: {} } })
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: toolNames.map(tool => ({ name: tool, description: `${tool} on ${name}`, inputSchema: { type: 'object' } })),
+  }))
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    calls.push(request.params.name)
+    return { content: [{ type: 'text', text: `${name}:${request.params.name}` }] }
+  })
+  return server
+}
+
+async function connectors(calls: Record<string, string[]> = {}): Promise<{ github: InMemoryConnector, jira: InMemoryConnector }> {
+  const github = new InMemoryConnector(createToolsServer('github', ['search', 'create_issue'], calls.github))
+  const jira = new InMemoryConnector(createToolsServer('jira', ['search'], calls.jira))
+  await github.connect()
+  await jira.connect()
+  return { github, jira }
+}
+
+describe('tool naming', () => {
+  it('prefixes only colliding names by default and calls the original tool', async () => {
+    const calls = { github: [] as string[], jira: [] as string[] }
+    const { github, jira } = await connectors(calls)
+    const tools = await new LangChainAdapter().createToolsFromConnectors({ github, jira })
+
+    expect(tools.map(t => t.name)).toEqual(['github__search', 'create_issue', 'jira__search'])
+    const jiraSearch = tools.find(t => t.name === 'jira__search')!
+    expect(await jiraSearch.invoke({})).toContain('jira:search')
+    expect(calls.jira).toEqual(['search'])
+    expect(calls.github).toEqual([])
+    await github.disconnect()
+    await jira.disconnect()
+  })
+
+  it('supports always prefixing, original names and custom names', async () => {
+    const { github, jira } = await connectors()
+    const warn = vi.spyOn(logger, 'warn')
+
+    const prefixed = await new LangChainAdapter([], { toolNaming: 'prefix' }).createToolsFromConnectors({ github, jira })
+    expect(prefixed.map(t => t.name)).toEqual(['github__search', 'github__create_issue', 'jira__search'])
+
+    const original = await new LangChainAdapter([], { toolNaming: 'original' }).createToolsFromConnectors({ github, jira })
+    expect(original.map(t => t.name)).toEqual(['search', 'create_issue', 'search'])
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Tool name 'search' is used by servers 'github' and 'jira'`))
+
+    const custom = await new LangChainAdapter([], {
+      toolNaming: (tool, serverName) => `${serverName}.${tool.name}`.toUpperCase(),
+    }).createToolsFromConnectors({ github, jira })
+    expect(custom.map(t => t.name)).toEqual(['GITHUB.SEARCH', 'GITHUB.CREATE_ISSUE', 'JIRA.SEARCH'])
+
+    warn.mockRestore()
+    await github.disconnect()
+    await jira.disconnect()
+  })
+
+  it('uses the reported server name for unnamed connectors', async () => {
+    const docs = new InMemoryConnector(createToolsServer('docs server', ['search']))
+    const web = new InMemoryConnector(createToolsServer('web', ['search']))
+    await docs.connect()
+    await web.connect()
+
+    const tools = await new LangChainAdapter().createToolsFromConnectors([docs, web])
+    expect(tools.map(t => t.name)).toEqual(['docs_server__search', 'web__search'])
+    await docs.disconnect()
+    await web.disconnect()
+  })
+
+  it('matches disallowed tools by original or prefixed name', async () => {
+    const { github, jira } = await connectors()
+
+    const tools = await new LangChainAdapter(['jira__search']).createToolsFromConnectors({ github, jira })
+    // With jira's search excluded, github's no longer collides
+    expect(tools.map(t => t.name)).toEqual(['search', 'create_issue'])
+
+    const none = await new LangChainAdapter(['search', 'create_issue']).createToolsFromConnectors({ github, jira })
+    expect(none).toEqual([])
+    await github.disconnect()
+    await jira.disconnect()
+  })
+
+  it('names client tools after server names and shows original names in the system prompt', async () => {
+    const client = new MCPClient({
+      mcpServers: {
+        gh: { inProcess: createToolsServer('github', ['search', 'create_issue']) },
+        tickets: { inProcess: createToolsServer('jira', ['search']) },
+      },
+    })
+
+    const tools = await new LangChainAdapter().createToolsFromClient(client)
+    expect(tools.map(t => t.name).sort()).toEqual(['create_issue', 'gh__search', 'tickets__search'])
+    expect(generateToolDescriptions(tools).sort()).toEqual([
+      '- create_issue: create_issue on github',
+      `- gh__search: ('search' on server 'gh') search on github`,
+      `- tickets__search: ('search' on server 'tickets') search on jira`,
+    ])
+    await client.closeAllSessions()
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Tests for MCPSession.watchResource
+ */
+
+import {
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it, vi } from 'vitest'
+import { MCPSession } from '../index.js'
+import { LinkedConnector } from './helpers/linked-connector.js'
+
+const DOC_URI = 'file:///notes.md'
+
+/** Connector backed by a document server. */
+class DocumentServerConnector extends LinkedConnector {
+  text = 'v1'
+  reads = 0
+  readonly subscribed: string[] = []
+  readonly unsubscribed: string[] = []
+
+  constructor() {
+    super({ serverName: 'docs', capabilities: { tools: {}, resources: { subscribe: true } } })
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }))
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscribed.push(request.params.uri)
+      return {}
+    })
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.unsubscribed.push(request.params.uri)
+      return {}
+    })
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      this.reads++
+      return { contents: [{ uri: request.params.uri, mimeType: 'text/markdown', text: this.text }] }
+    })
+  }
+
+  async edit(text: string): Promise<void> {
+    this.text = text
+    await this.server.sendResourceUpdated({ uri: DOC_URI })
+  }
+}
+
+describe('mCPSession.watchResource', () => {
+  it('delivers fresh contents on each update until unwatched', async () => {
+    const connector = new DocumentServerConnector()
+    const session = new MCPSession(connector)
+    await session.initialize()
+
+    const callback = vi.fn()
+    const unwatch = await session.watchResource(DOC_URI, callback)
+    expect(connector.subscribed).toEqual([DOC_URI])
+
+    await connector.edit('v2')
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1))
+    expect(callback).toHaveBeenCalledWith([{ uri: DOC_URI, mimeType: 'text/markdown', text: 'v2' }])
+
+    await unwatch()
+    expect(connector.unsubscribed).toEqual([DOC_URI])
+    await connector.edit('v3')
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(callback).toHaveBeenCalledTimes(1)
+
+    await session.disconnect()
+  })
+
+  it('keeps the subscription until the last watcher stops', async () => {
+    const connector = new DocumentServerConnector()
+    const session = new MCPSession(connector)
+    await session.initialize()
+
+    const first = await session.watchResource(DOC_URI, () => {})
+    const second = await session.watchResource(DOC_URI, () => {})
+    expect(connector.subscribed).toEqual([DOC_URI])
+
+    await first()
+    expect(connector.unsubscribed).toEqual([])
+    await second()
+    expect(connector.unsubscribed).toEqual([DOC_URI])
+
+    await session.disconnect()
+  })
+
+  it('shares one subscription between concurrent watchers', async () => {
+    const connector = new DocumentServerConnector()
+    const session = new MCPSession(connector)
+    await session.initialize()
+
+    const first = vi.fn()
+    const second = vi.fn()
+    const [unwatchFirst, unwatchSecond] = await Promise.all([
+      session.watchResource(DOC_URI, first),
+      session.watchResource(DOC_URI, second),
+    ])
+    expect(connector.subscribed).toEqual([DOC_URI])
+
+    await unwatchFirst()
+    expect(connector.unsubscribed).toEqual([])
+    await connector.edit('v2')
+    await vi.waitFor(() => expect(second).toHaveBeenCalledTimes(1))
+    expect(first).not.toHaveBeenCalled()
+
+    await unwatchSecond()
+    expect(connector.unsubscribed).toEqual([DOC_URI])
+    await session.disconnect()
+  })
+
+  it('drops the watch when subscribing fails', async () => {
+    const connector = new DocumentServerConnector()
+    connector.server.setRequestHandler(SubscribeRequestSchema, async () => {
+      throw new Error('subscriptions are full')
+    })
+    const session = new MCPSession(connector)
+    await session.initialize()
+
+    await expect(session.watchResource(DOC_URI, () => {})).rejects.toThrow('subscriptions are full')
+    connector.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      connector.subscribed.push(request.params.uri)
+      return {}
+    })
+    await session.watchResource(DOC_URI, () => {})
+    expect(connector.subscribed).toEqual([DOC_URI])
+
+    await session.disconnect()
+  })
+
+  it('debounces bursts of updates into a single read', async () => {
+    const connector = new DocumentServerConnector()
+    const session = new MCPSession(connector)
+    await session.initialize()
+
+    const callback = vi.fn()
+    await session.watchResource(DOC_URI, callback, { debounceMs: 30 })
+    await connector.edit('a')
+    await connector.edit('ab')
+    await connector.edit('abc')
+
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1))
+    expect(callback.mock.calls[0][0][0].text).toBe('abc')
+    expect(connector.reads).toBe(1)
+
+    await session.disconnect()
+  })
+
+  it('re-subscribes and catches up after a reconnect', async () => {
+    const connector = new DocumentServerConnector()
+    const session = new MCPSession(connector, true, { initialReconnectDelayMs: 1 })
+    await session.initialize()
+
+    const callback = vi.fn()
+    await session.watchResource(DOC_URI, callback)
+
+    const reconnected = new Promise(resolve => session.on('reconnected', resolve))
+    connector.text = 'changed while offline'
+    await connector.server.close()
+    await reconnected
+
+    expect(connector.subscribed).toEqual([DOC_URI, DOC_URI])
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledWith([
+      { uri: DOC_URI, mimeType: 'text/markdown', text: 'changed while offline' },
+    ]))
+
+    // Updates from the new connection are delivered too
+    await connector.edit('live again')
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2))
+
+    await session.disconnect()
+  })
+
+  it('reports failed re-reads to onError', async () => {
+    const connector = new DocumentServerConnector()
+    const session = new MCPSession(connector)
+    await session.initialize()
+
+    const onError = vi.fn()
+    await session.watchResource(DOC_URI, () => {}, { onError })
+    connector.server.setRequestHandler(ReadResourceRequestSchema, async () => {
+      throw new Error('document locked')
+    })
+    await connector.edit('v2')
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('document locked') })))
+    await session.disconnect()
+  })
+})